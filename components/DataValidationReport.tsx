@@ -0,0 +1,131 @@
+import React from 'react';
+import type { ValidationReport } from '../services/dataValidationService';
+import { dataTypeTranslations } from '../constants';
+import { CheckCircleIcon, ExclamationIcon } from './icons';
+
+interface DataValidationReportProps {
+    report: ValidationReport;
+    onConfirm: () => void;
+    onCancel: () => void;
+}
+
+const DataValidationReport: React.FC<DataValidationReportProps> = ({ report, onConfirm, onCancel }) => {
+    // A file without the required columns would break every tool that reads this dataset, so it cannot be applied
+    const canApply = report.missingColumns.length === 0;
+    const hasErrors = report.errorCount > 0;
+
+    const formatValue = (value: string | number | null | undefined) => {
+        if (value === null || value === undefined || value === '') return '（空）';
+        return typeof value === 'number' ? value.toLocaleString() : value;
+    };
+
+    return (
+        <div className="h-full flex flex-col bg-white">
+            <div className={`p-4 border-b flex items-start justify-between gap-4 ${hasErrors ? 'bg-red-50 border-red-200' : report.warningCount > 0 ? 'bg-yellow-50 border-yellow-200' : 'bg-green-50 border-green-200'}`}>
+                <div className="flex items-start gap-3 min-w-0">
+                    {hasErrors || report.warningCount > 0
+                        ? <ExclamationIcon className={`w-6 h-6 flex-shrink-0 ${hasErrors ? 'text-red-500' : 'text-yellow-500'}`} />
+                        : <CheckCircleIcon className="w-6 h-6 flex-shrink-0 text-green-500" />}
+                    <div className="min-w-0">
+                        <h3 className="font-semibold text-gray-800 truncate">
+                            アップロード検証結果: {report.fileName}（{dataTypeTranslations[report.dataType]}）
+                        </h3>
+                        <p className="text-sm text-gray-600 mt-1">
+                            {report.rowCount.toLocaleString()}行 / エラー {report.errorCount.toLocaleString()}件 / 警告 {report.warningCount.toLocaleString()}件
+                        </p>
+                        {!canApply && (
+                            <p className="text-sm text-red-600 mt-1">必須列（{report.missingColumns.join(', ')}）がないため、このファイルは取り込めません。</p>
+                        )}
+                        {canApply && hasErrors && (
+                            <p className="text-sm text-red-600 mt-1">エラーのある行は分析結果を歪める可能性があります。ファイルを修正して再アップロードすることを推奨します。</p>
+                        )}
+                    </div>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                    <button
+                        onClick={onCancel}
+                        className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-50"
+                    >
+                        キャンセル
+                    </button>
+                    <button
+                        onClick={onConfirm}
+                        disabled={!canApply}
+                        className={`px-3 py-2 text-sm font-medium text-white rounded-md shadow-sm disabled:opacity-50 disabled:cursor-not-allowed ${hasErrors ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'}`}
+                    >
+                        {hasErrors ? 'エラーを承知で置き換える' : '現在のデータを置き換える'}
+                    </button>
+                </div>
+            </div>
+
+            <div className="flex-grow overflow-auto p-4 space-y-6">
+                <section>
+                    <h4 className="font-semibold text-gray-700 mb-2">列プロファイル</h4>
+                    <table className="w-full text-sm border-collapse">
+                        <thead className="bg-gray-50">
+                            <tr>
+                                {['列', '型', '値あり', '空', 'ユニーク数', '最小', '最大'].map(header => (
+                                    <th key={header} className="text-left font-medium text-gray-600 p-2 border-b border-gray-200">{header}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                            {report.profiles.map(profile => (
+                                <tr key={profile.column} className={report.unexpectedColumns.includes(profile.column) ? 'bg-yellow-50' : ''}>
+                                    <td className="p-2 font-medium text-gray-800">{profile.column}</td>
+                                    <td className={`p-2 ${profile.detectedType === 'mixed' ? 'text-red-600' : 'text-gray-700'}`}>{profile.detectedType}</td>
+                                    <td className="p-2 text-gray-700">{profile.nonNullCount.toLocaleString()}</td>
+                                    <td className="p-2 text-gray-700">{profile.nullCount.toLocaleString()}</td>
+                                    <td className="p-2 text-gray-700">{profile.distinctCount.toLocaleString()}</td>
+                                    <td className="p-2 text-gray-700">{profile.min === null ? '' : formatValue(profile.min)}</td>
+                                    <td className="p-2 text-gray-700">{profile.max === null ? '' : formatValue(profile.max)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </section>
+
+                <section>
+                    <h4 className="font-semibold text-gray-700 mb-2">検出された問題</h4>
+                    {report.issues.length === 0 ? (
+                        <p className="text-sm text-gray-500">問題は見つかりませんでした。</p>
+                    ) : (
+                        <>
+                            <table className="w-full text-sm border-collapse">
+                                <thead className="bg-gray-50">
+                                    <tr>
+                                        {['データ行', '列', '重要度', '内容', '値'].map(header => (
+                                            <th key={header} className="text-left font-medium text-gray-600 p-2 border-b border-gray-200">{header}</th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-200">
+                                    {report.issues.map((issue, i) => (
+                                        <tr key={i}>
+                                            <td className="p-2 text-gray-700">{issue.row ?? '-'}</td>
+                                            <td className="p-2 text-gray-700">{issue.column ?? '-'}</td>
+                                            <td className="p-2">
+                                                <span className={`px-2 py-0.5 rounded-full text-xs font-bold text-white ${issue.severity === 'error' ? 'bg-red-500' : 'bg-yellow-500'}`}>
+                                                    {issue.severity === 'error' ? 'エラー' : '警告'}
+                                                </span>
+                                            </td>
+                                            <td className="p-2 text-gray-700">{issue.message}</td>
+                                            <td className="p-2 text-gray-700 font-mono">{issue.row !== null && issue.column !== null ? formatValue(issue.value) : ''}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            {report.truncated && (
+                                <p className="text-sm text-gray-500 mt-2">
+                                    最初の{report.issues.length.toLocaleString()}件のみ表示しています（全{(report.errorCount + report.warningCount).toLocaleString()}件）。
+                                </p>
+                            )}
+                        </>
+                    )}
+                </section>
+            </div>
+        </div>
+    );
+};
+
+export default DataValidationReport;
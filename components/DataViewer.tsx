@@ -4,6 +4,8 @@ import type { DataSets, DataSet } from '../types';
 import { DataType, dataTypeTranslations } from '../constants';
 import FileUpload from './FileUpload';
 import TableComponent from './charts/TableComponent';
+import DataValidationReport from './DataValidationReport';
+import { validateDataSet, type ValidationReport } from '../services/dataValidationService';
 
 interface DataViewerProps {
     dataSets: DataSets;
@@ -12,9 +14,25 @@ interface DataViewerProps {
 
 const DataViewer: React.FC<DataViewerProps> = ({ dataSets, onDataUpload }) => {
     const [activeDataTab, setActiveDataTab] = useState<DataType>(DataType.ACCOUNT_BALANCES);
+    // Uploaded files wait here with their validation report until the user confirms the replacement
+    const [pendingUploads, setPendingUploads] = useState<Partial<Record<DataType, { dataSet: DataSet; report: ValidationReport }>>>({});
 
     const dataTypes = Object.values(DataType);
     const currentDataSet = dataSets[activeDataTab];
+    const pendingUpload = pendingUploads[activeDataTab];
+
+    const handleFileUpload = (dataType: DataType, dataSet: DataSet, parseErrors: { row?: number; message: string }[]) => {
+        const report = validateDataSet(dataType, dataSet, parseErrors);
+        setPendingUploads(prev => ({ ...prev, [dataType]: { dataSet, report } }));
+        setActiveDataTab(dataType);
+    };
+
+    const clearPendingUpload = (dataType: DataType) => {
+        setPendingUploads(prev => {
+            const { [dataType]: _, ...rest } = prev;
+            return rest;
+        });
+    };
 
     return (
         <div className="flex flex-col h-full bg-slate-50 p-6">
@@ -24,7 +42,7 @@ const DataViewer: React.FC<DataViewerProps> = ({ dataSets, onDataUpload }) => {
                     <FileUpload
                         key={dt}
                         title={dataTypeTranslations[dt]}
-                        onFileUpload={(data) => onDataUpload(dt, data)}
+                        onFileUpload={(data, parseErrors) => handleFileUpload(dt, data, parseErrors)}
                     />
                 ))}
             </div>
@@ -38,11 +56,21 @@ const DataViewer: React.FC<DataViewerProps> = ({ dataSets, onDataUpload }) => {
                             className={`flex-shrink-0 px-4 py-3 text-sm font-medium -mb-px border-b-2 whitespace-nowrap ${activeDataTab === dt ? 'border-blue-500 text-blue-600' : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'}`}
                         >
                             {dataTypeTranslations[dt]}
+                            {pendingUploads[dt] && <span className="ml-2 inline-block w-2 h-2 rounded-full bg-yellow-500 align-middle" title="検証待ちのアップロードがあります" />}
                         </button>
                     ))}
                 </div>
                 <div className="flex-grow overflow-auto">
-                    {currentDataSet ? (
+                    {pendingUpload ? (
+                        <DataValidationReport
+                            report={pendingUpload.report}
+                            onConfirm={() => {
+                                onDataUpload(activeDataTab, pendingUpload.dataSet);
+                                clearPendingUpload(activeDataTab);
+                            }}
+                            onCancel={() => clearPendingUpload(activeDataTab)}
+                        />
+                    ) : currentDataSet ? (
                         <TableComponent data={currentDataSet} />
                     ) : (
                         <div className="flex items-center justify-center h-full">
@@ -5,7 +5,7 @@ import { UploadIcon } from './icons';
 declare const Papa: any;
 
 interface FileUploadProps {
-    onFileUpload: (data: DataSet) => void;
+    onFileUpload: (data: DataSet, parseErrors: { row?: number; message: string }[]) => void;
     title: string;
 }
 
@@ -17,7 +17,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, title }) => {
                 header: true,
                 skipEmptyLines: true,
                 dynamicTyping: true,
-                complete: (results: { data: CsvRow[] }) => {
+                complete: (results: { data: CsvRow[]; errors: { row?: number; message: string }[] }) => {
                     const data = results.data;
                     if (data.length > 0) {
                         const columnNames = Object.keys(data[0]);
@@ -30,7 +30,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, title }) => {
                                 columnNames: columnNames,
                             },
                         };
-                        onFileUpload(newDataSet);
+                        onFileUpload(newDataSet, results.errors);
                     }
                 },
             });
@@ -0,0 +1,235 @@
+// Validates uploaded CSV files against the schema each DataType is expected to have, and profiles
+// their columns so that problems are visible before a file replaces the dataset used by the tools.
+import type { CsvRow, DataSet } from '../types';
+import { DataType } from '../constants';
+
+type ColumnType = 'string' | 'number' | 'date' | 'currency';
+
+interface ColumnRule {
+    name: string;
+    type: ColumnType;
+    optional?: boolean;
+    nonNegative?: boolean;
+    positive?: boolean;
+    unique?: boolean;
+    allowedValues?: string[];
+}
+
+export const DATA_SCHEMAS: Record<DataType, ColumnRule[]> = {
+    [DataType.ACCOUNT_BALANCES]: [
+        { name: 'evaluation_date', type: 'date' },
+        { name: 'company_code', type: 'string' },
+        { name: 'country_code', type: 'string' },
+        { name: 'account_id', type: 'string' },
+        { name: 'currency', type: 'currency' },
+        { name: 'balance', type: 'number' },
+    ],
+    [DataType.TRANSACTIONS]: [
+        { name: 'transaction_date', type: 'date' },
+        { name: 'account_id', type: 'string' },
+        { name: 'amount', type: 'number' },
+        { name: 'currency', type: 'currency' },
+        { name: 'description', type: 'string', optional: true },
+        { name: 'category', type: 'string' },
+    ],
+    [DataType.TRADE_ITEMS]: [
+        { name: 'item_id', type: 'string', unique: true },
+        { name: 'company_code', type: 'string' },
+        { name: 'item_type', type: 'string', allowedValues: ['AR', 'AP'] },
+        { name: 'issue_date', type: 'date' },
+        { name: 'due_date', type: 'date' },
+        { name: 'currency', type: 'currency' },
+        { name: 'amount', type: 'number', nonNegative: true },
+        { name: 'counterparty', type: 'string' },
+    ],
+    [DataType.LOANS]: [
+        { name: 'contract_id', type: 'string', unique: true },
+        { name: 'company_code', type: 'string' },
+        { name: 'lender', type: 'string' },
+        { name: 'start_date', type: 'date' },
+        { name: 'maturity_date', type: 'date' },
+        { name: 'currency', type: 'currency' },
+        { name: 'principal_amount', type: 'number', nonNegative: true },
+        { name: 'interest_rate_type', type: 'string', allowedValues: ['Fixed', 'Floating'] },
+        { name: 'interest_rate', type: 'number' },
+    ],
+    [DataType.FX_RATES]: [
+        { name: 'rate_date', type: 'date' },
+        { name: 'from_currency', type: 'currency' },
+        { name: 'to_currency', type: 'currency' },
+        { name: 'rate', type: 'number', positive: true },
+    ],
+};
+
+export interface ValidationIssue {
+    row: number | null;
+    column: string | null;
+    severity: 'error' | 'warning';
+    message: string;
+    value?: string | number | null;
+}
+
+export interface ColumnProfile {
+    column: string;
+    detectedType: 'number' | 'date' | 'string' | 'mixed' | 'empty';
+    nonNullCount: number;
+    nullCount: number;
+    distinctCount: number;
+    min: string | number | null;
+    max: string | number | null;
+}
+
+export interface ValidationReport {
+    dataType: DataType;
+    fileName: string;
+    rowCount: number;
+    missingColumns: string[];
+    unexpectedColumns: string[];
+    issues: ValidationIssue[];
+    errorCount: number;
+    warningCount: number;
+    truncated: boolean;
+    profiles: ColumnProfile[];
+}
+
+// Keeps the report readable for badly broken files; the counts still cover every issue
+const MAX_REPORTED_ISSUES = 500;
+
+const ISO_CURRENCY_CODES: Set<string> | null = typeof Intl.supportedValuesOf === 'function'
+    ? new Set(Intl.supportedValuesOf('currency'))
+    : null;
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+
+// Strict YYYY-MM-DD that also exists in the calendar (rejects e.g. 2024-02-30)
+function isIsoDate(value: unknown): boolean {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(String(value));
+    if (!match) return false;
+    const [, y, m, d] = match.map(Number);
+    const date = new Date(Date.UTC(y, m - 1, d));
+    return date.getUTCFullYear() === y && date.getUTCMonth() === m - 1 && date.getUTCDate() === d;
+}
+
+function isCurrencyCode(value: unknown): boolean {
+    const code = String(value);
+    if (!/^[A-Z]{3}$/.test(code)) return false;
+    return ISO_CURRENCY_CODES ? ISO_CURRENCY_CODES.has(code) : true;
+}
+
+function profileColumn(data: CsvRow[], column: string): ColumnProfile {
+    const values = data.map(row => row[column]).filter(v => !isEmpty(v)) as (string | number)[];
+    const numbers = values.filter((v): v is number => typeof v === 'number');
+    const dates = values.filter(v => typeof v === 'string' && isIsoDate(v)) as string[];
+    let detectedType: ColumnProfile['detectedType'];
+    if (values.length === 0) detectedType = 'empty';
+    else if (numbers.length === values.length) detectedType = 'number';
+    else if (dates.length === values.length) detectedType = 'date';
+    else if (numbers.length === 0 && dates.length === 0) detectedType = 'string';
+    else detectedType = 'mixed';
+
+    let min: string | number | null = null;
+    let max: string | number | null = null;
+    if (detectedType === 'number') {
+        min = numbers.reduce((a, b) => Math.min(a, b));
+        max = numbers.reduce((a, b) => Math.max(a, b));
+    } else if (detectedType === 'date') {
+        const sorted = [...dates].sort();
+        min = sorted[0];
+        max = sorted[sorted.length - 1];
+    }
+    return {
+        column,
+        detectedType,
+        nonNullCount: values.length,
+        nullCount: data.length - values.length,
+        distinctCount: new Set(values).size,
+        min,
+        max,
+    };
+}
+
+export function validateDataSet(dataType: DataType, dataSet: DataSet, parseErrors: { row?: number; message: string }[] = []): ValidationReport {
+    const schema = DATA_SCHEMAS[dataType];
+    const columns = dataSet.stats.columnNames;
+    const issues: ValidationIssue[] = [];
+    let errorCount = 0;
+    let warningCount = 0;
+    const report = (issue: ValidationIssue) => {
+        if (issue.severity === 'error') errorCount++;
+        else warningCount++;
+        if (issues.length < MAX_REPORTED_ISSUES) issues.push(issue);
+    };
+
+    // PapaParse rows are 0-based data rows; reported rows are 1-based data rows (the header is not counted)
+    parseErrors.forEach(e => report({ row: e.row !== undefined ? e.row + 1 : null, column: null, severity: 'error', message: `CSVの解析エラー: ${e.message}` }));
+
+    const missingColumns = schema.filter(rule => !columns.includes(rule.name)).map(rule => rule.name);
+    const unexpectedColumns = columns.filter(col => !schema.some(rule => rule.name === col));
+    missingColumns.forEach(col => report({ row: null, column: col, severity: 'error', message: `必須列「${col}」がありません。` }));
+    unexpectedColumns.forEach(col => report({ row: null, column: col, severity: 'warning', message: `列「${col}」は想定されたスキーマにないため、分析ツールでは使用されない可能性があります。` }));
+
+    const presentRules = schema.filter(rule => columns.includes(rule.name));
+    const seenValues = new Map<string, Map<string, number>>(presentRules.filter(rule => rule.unique).map(rule => [rule.name, new Map()]));
+
+    dataSet.data.forEach((row, index) => {
+        const rowNumber = index + 1;
+        presentRules.forEach(rule => {
+            const value = row[rule.name] ?? null;
+            if (isEmpty(value)) {
+                if (!rule.optional) report({ row: rowNumber, column: rule.name, severity: 'error', message: '値が空です。', value });
+                return;
+            }
+            switch (rule.type) {
+                case 'number':
+                    if (typeof value !== 'number' || !isFinite(value)) {
+                        report({ row: rowNumber, column: rule.name, severity: 'error', message: '数値ではありません。', value });
+                        return;
+                    }
+                    if (rule.positive && value <= 0) {
+                        report({ row: rowNumber, column: rule.name, severity: 'error', message: '正の値である必要があります。', value });
+                    } else if (rule.nonNegative && value < 0) {
+                        report({ row: rowNumber, column: rule.name, severity: 'error', message: '負の値は使用できません。', value });
+                    }
+                    break;
+                case 'date':
+                    if (!isIsoDate(value)) {
+                        report({ row: rowNumber, column: rule.name, severity: 'error', message: '日付はYYYY-MM-DD形式の実在する日付である必要があります。', value });
+                    }
+                    break;
+                case 'currency':
+                    if (!isCurrencyCode(value)) {
+                        report({ row: rowNumber, column: rule.name, severity: 'error', message: 'ISO 4217の通貨コード（例: JPY, USD）ではありません。', value });
+                    }
+                    break;
+                case 'string':
+                    if (rule.allowedValues && !rule.allowedValues.includes(String(value))) {
+                        report({ row: rowNumber, column: rule.name, severity: 'error', message: `次のいずれかである必要があります: ${rule.allowedValues.join(', ')}`, value });
+                    }
+                    break;
+            }
+            const seen = seenValues.get(rule.name);
+            if (seen) {
+                const key = String(value);
+                const firstRow = seen.get(key);
+                if (firstRow !== undefined) {
+                    report({ row: rowNumber, column: rule.name, severity: 'error', message: `値が重複しています（${firstRow}行目と同じ）。`, value });
+                } else {
+                    seen.set(key, rowNumber);
+                }
+            }
+        });
+    });
+
+    return {
+        dataType,
+        fileName: dataSet.name,
+        rowCount: dataSet.data.length,
+        missingColumns,
+        unexpectedColumns,
+        issues,
+        errorCount,
+        warningCount,
+        truncated: errorCount + warningCount > issues.length,
+        profiles: columns.map(col => profileColumn(dataSet.data, col)),
+    };
+}
@@ -0,0 +1,533 @@
+import type { CsvRow } from '../types';
+
+// Expression language used by add_column. Expressions are tokenized, parsed into a syntax tree and
+// evaluated by an interpreter, so no JavaScript from the model is ever executed.
+//
+//   Literals     123, 1.5e3, 'text', "text", NULL, TRUE, FALSE
+//   Columns      balance, `column with spaces`
+//   Scalars      [other_dataset].column (value of a single-row dataset)
+//   Operators    + - * / %, & (concatenation), == = === != <> !== < <= > >=, && AND, || OR, ! NOT, cond ? a : b
+//   CASE         CASE WHEN cond THEN a [WHEN ...] [ELSE b] END, or CASE expr WHEN value THEN a ... END
+//   Functions    see FUNCTIONS below (names are case-insensitive)
+
+export type ExpressionValue = string | number | boolean | null;
+
+export class ExpressionError extends Error {}
+
+type Node =
+    | { type: 'literal'; value: ExpressionValue }
+    | { type: 'column'; name: string }
+    | { type: 'scalar'; dataset: string; column: string }
+    | { type: 'unary'; operator: string; operand: Node }
+    | { type: 'binary'; operator: string; left: Node; right: Node }
+    | { type: 'conditional'; test: Node; consequent: Node; alternate: Node }
+    | { type: 'case'; subject: Node | null; branches: { when: Node; then: Node }[]; otherwise: Node | null }
+    | { type: 'call'; name: string; args: Node[] };
+
+type Token =
+    | { kind: 'number'; value: number; position: number }
+    | { kind: 'string'; value: string; position: number }
+    | { kind: 'identifier'; value: string; quoted: boolean; position: number }
+    | { kind: 'scalar'; dataset: string; column: string; position: number }
+    | { kind: 'operator'; value: string; position: number }
+    | { kind: 'end'; position: number };
+
+const KEYWORDS = new Set(['AND', 'OR', 'NOT', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END', 'NULL', 'TRUE', 'FALSE']);
+const OPERATORS = ['===', '!==', '==', '!=', '<>', '<=', '>=', '&&', '||', '+', '-', '*', '/', '%', '&', '(', ')', ',', '?', ':', '<', '>', '=', '!'];
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < source.length) {
+        const char = source[i];
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+        const start = i;
+        const number = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(i));
+        if (number) {
+            tokens.push({ kind: 'number', value: Number(number[0]), position: start });
+            i += number[0].length;
+            continue;
+        }
+        if (char === '"' || char === "'") {
+            let value = '';
+            i++;
+            while (i < source.length && source[i] !== char) {
+                if (source[i] === '\\' && i + 1 < source.length) i++;
+                value += source[i++];
+            }
+            if (i >= source.length) throw new ExpressionError(`Unterminated string starting at position ${start + 1}.`);
+            i++;
+            tokens.push({ kind: 'string', value, position: start });
+            continue;
+        }
+        if (char === '`') {
+            const close = source.indexOf('`', i + 1);
+            if (close === -1) throw new ExpressionError(`Unterminated quoted column name starting at position ${start + 1}.`);
+            tokens.push({ kind: 'identifier', value: source.slice(i + 1, close), quoted: true, position: start });
+            i = close + 1;
+            continue;
+        }
+        if (char === '[') {
+            const scalar = /^\[([^\]]+)\]\.(\w+)/.exec(source.slice(i));
+            if (!scalar) throw new ExpressionError(`Expected "[dataset].column" at position ${start + 1}.`);
+            tokens.push({ kind: 'scalar', dataset: scalar[1].trim(), column: scalar[2], position: start });
+            i += scalar[0].length;
+            continue;
+        }
+        const identifier = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i));
+        if (identifier) {
+            tokens.push({ kind: 'identifier', value: identifier[0], quoted: false, position: start });
+            i += identifier[0].length;
+            continue;
+        }
+        const operator = OPERATORS.find(op => source.startsWith(op, i));
+        if (!operator && char === '.') {
+            throw new ExpressionError(`Unexpected "." at position ${start + 1}. Method calls such as .includes() are not supported; use functions such as CONTAINS(column, 'text') instead.`);
+        }
+        if (!operator) throw new ExpressionError(`Unexpected character "${char}" at position ${start + 1}.`);
+        tokens.push({ kind: 'operator', value: operator, position: start });
+        i += operator.length;
+    }
+    tokens.push({ kind: 'end', position: source.length });
+    return tokens;
+}
+
+class Parser {
+    private index = 0;
+
+    constructor(private readonly tokens: Token[]) {}
+
+    parse(): Node {
+        const node = this.parseConditional();
+        const token = this.peek();
+        if (token.kind !== 'end') throw this.unexpected(token);
+        return node;
+    }
+
+    private peek(): Token {
+        return this.tokens[this.index];
+    }
+
+    private next(): Token {
+        return this.tokens[this.index++];
+    }
+
+    private isOperator(...values: string[]): boolean {
+        const token = this.peek();
+        return token.kind === 'operator' && values.includes(token.value);
+    }
+
+    private isKeyword(...values: string[]): boolean {
+        const token = this.peek();
+        return token.kind === 'identifier' && !token.quoted && values.includes(token.value.toUpperCase());
+    }
+
+    private expectOperator(value: string) {
+        if (!this.isOperator(value)) throw this.unexpected(this.peek(), `"${value}"`);
+        this.next();
+    }
+
+    private expectKeyword(value: string) {
+        if (!this.isKeyword(value)) throw this.unexpected(this.peek(), value);
+        this.next();
+    }
+
+    private unexpected(token: Token, expected?: string): ExpressionError {
+        const found = token.kind === 'end' ? 'end of expression'
+            : token.kind === 'scalar' ? `"[${token.dataset}].${token.column}"`
+            : `"${token.value}"`;
+        return new ExpressionError(`Unexpected ${found} at position ${token.position + 1}${expected ? `; expected ${expected}` : ''}.`);
+    }
+
+    private parseConditional(): Node {
+        const test = this.parseOr();
+        if (!this.isOperator('?')) return test;
+        this.next();
+        const consequent = this.parseConditional();
+        this.expectOperator(':');
+        const alternate = this.parseConditional();
+        return { type: 'conditional', test, consequent, alternate };
+    }
+
+    private parseOr(): Node {
+        let left = this.parseAnd();
+        while (this.isOperator('||') || this.isKeyword('OR')) {
+            this.next();
+            left = { type: 'binary', operator: 'OR', left, right: this.parseAnd() };
+        }
+        return left;
+    }
+
+    private parseAnd(): Node {
+        let left = this.parseNot();
+        while (this.isOperator('&&') || this.isKeyword('AND')) {
+            this.next();
+            left = { type: 'binary', operator: 'AND', left, right: this.parseNot() };
+        }
+        return left;
+    }
+
+    private parseNot(): Node {
+        if (this.isKeyword('NOT')) {
+            this.next();
+            return { type: 'unary', operator: 'NOT', operand: this.parseNot() };
+        }
+        return this.parseComparison();
+    }
+
+    private parseComparison(): Node {
+        const left = this.parseAdditive();
+        if (!this.isOperator('==', '=', '===', '!=', '<>', '!==', '<', '<=', '>', '>=')) return left;
+        const token = this.next() as { value: string };
+        const operator = token.value === '=' || token.value === '===' ? '==' : token.value === '<>' || token.value === '!==' ? '!=' : token.value;
+        return { type: 'binary', operator, left, right: this.parseAdditive() };
+    }
+
+    private parseAdditive(): Node {
+        let left = this.parseMultiplicative();
+        while (this.isOperator('+', '-', '&')) {
+            const operator = (this.next() as { value: string }).value;
+            left = { type: 'binary', operator, left, right: this.parseMultiplicative() };
+        }
+        return left;
+    }
+
+    private parseMultiplicative(): Node {
+        let left = this.parseUnary();
+        while (this.isOperator('*', '/', '%')) {
+            const operator = (this.next() as { value: string }).value;
+            left = { type: 'binary', operator, left, right: this.parseUnary() };
+        }
+        return left;
+    }
+
+    private parseUnary(): Node {
+        if (this.isOperator('-', '+', '!')) {
+            const operator = (this.next() as { value: string }).value;
+            return { type: 'unary', operator: operator === '!' ? 'NOT' : operator, operand: this.parseUnary() };
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): Node {
+        const token = this.next();
+        switch (token.kind) {
+            case 'number':
+            case 'string':
+                return { type: 'literal', value: token.value };
+            case 'scalar':
+                return { type: 'scalar', dataset: token.dataset, column: token.column };
+            case 'operator':
+                if (token.value === '(') {
+                    const node = this.parseConditional();
+                    this.expectOperator(')');
+                    return node;
+                }
+                throw this.unexpected(token);
+            case 'identifier': {
+                if (token.quoted) return { type: 'column', name: token.value };
+                const keyword = token.value.toUpperCase();
+                if (keyword === 'NULL') return { type: 'literal', value: null };
+                if (keyword === 'TRUE' || keyword === 'FALSE') return { type: 'literal', value: keyword === 'TRUE' };
+                if (keyword === 'CASE') return this.parseCase();
+                if (this.isOperator('(')) return this.parseCall(token.value, token.position);
+                if (KEYWORDS.has(keyword)) throw this.unexpected(token);
+                return { type: 'column', name: token.value };
+            }
+            default:
+                throw this.unexpected(token);
+        }
+    }
+
+    private parseCall(name: string, position: number): Node {
+        const upper = name.toUpperCase();
+        if (!FUNCTIONS[upper]) {
+            throw new ExpressionError(`Unknown function "${name}" at position ${position + 1}. Available functions: ${Object.keys(FUNCTIONS).join(', ')}.`);
+        }
+        this.expectOperator('(');
+        const args: Node[] = [];
+        if (!this.isOperator(')')) {
+            args.push(this.parseConditional());
+            while (this.isOperator(',')) {
+                this.next();
+                args.push(this.parseConditional());
+            }
+        }
+        this.expectOperator(')');
+        const [min, max] = FUNCTIONS[upper].arity;
+        if (args.length < min || args.length > max) {
+            const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min} to ${max}`;
+            throw new ExpressionError(`Function ${upper} expects ${expected} argument(s) but got ${args.length}.`);
+        }
+        return { type: 'call', name: upper, args };
+    }
+
+    private parseCase(): Node {
+        const subject = this.isKeyword('WHEN') ? null : this.parseConditional();
+        const branches: { when: Node; then: Node }[] = [];
+        while (this.isKeyword('WHEN')) {
+            this.next();
+            const when = this.parseConditional();
+            this.expectKeyword('THEN');
+            branches.push({ when, then: this.parseConditional() });
+        }
+        if (branches.length === 0) throw this.unexpected(this.peek(), 'WHEN');
+        let otherwise: Node | null = null;
+        if (this.isKeyword('ELSE')) {
+            this.next();
+            otherwise = this.parseConditional();
+        }
+        this.expectKeyword('END');
+        return { type: 'case', subject, branches, otherwise };
+    }
+}
+
+const isTruthy = (value: ExpressionValue) => value !== null && value !== false && value !== 0 && value !== '';
+
+const isNumeric = (value: ExpressionValue) => typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)));
+
+function toNumber(value: ExpressionValue, context: string): number | null {
+    if (value === null) return null;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    if (isNumeric(value)) return Number(value);
+    throw new ExpressionError(`${context} expects a number but got "${value}".`);
+}
+
+function toText(value: ExpressionValue): string | null {
+    return value === null ? null : String(value);
+}
+
+function compareValues(left: ExpressionValue, right: ExpressionValue): number {
+    if (isNumeric(left) && isNumeric(right)) return Number(left) - Number(right);
+    return String(left).localeCompare(String(right));
+}
+
+// Dates are "YYYY-MM-DD" strings (a time part is ignored) and are computed in UTC
+function toDate(value: ExpressionValue, context: string): Date | null {
+    if (value === null) return null;
+    const match = /^(\d{4})[-\/](\d{1,2})[-\/](\d{1,2})/.exec(String(value).trim());
+    const date = match ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))) : null;
+    if (!date || isNaN(date.getTime()) || date.getUTCDate() !== Number(match![3])) {
+        throw new ExpressionError(`${context} expects a date (YYYY-MM-DD) but got "${value}".`);
+    }
+    return date;
+}
+
+const formatIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+function shiftMonths(date: Date, months: number): Date {
+    const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+    return target;
+}
+
+function dateUnit(value: ExpressionValue | undefined, name: string): 'day' | 'month' | 'year' {
+    const unit = String(value ?? 'day').toLowerCase().replace(/s$/, '');
+    if (unit !== 'day' && unit !== 'month' && unit !== 'year') {
+        throw new ExpressionError(`${name} unit must be "day", "month" or "year" but got "${value}".`);
+    }
+    return unit;
+}
+
+// Functions receive already evaluated arguments, except those flagged as lazy which receive a thunk per argument
+type FunctionDefinition =
+    | { arity: [number, number]; lazy?: false; fn: (args: ExpressionValue[]) => ExpressionValue }
+    | { arity: [number, number]; lazy: true; fn: (args: (() => ExpressionValue)[]) => ExpressionValue };
+
+const FUNCTIONS: Record<string, FunctionDefinition> = {
+    IF: { arity: [2, 3], lazy: true, fn: ([test, consequent, alternate]) => isTruthy(test()) ? consequent() : alternate ? alternate() : null },
+    COALESCE: { arity: [1, Infinity], lazy: true, fn: args => {
+        for (const arg of args) {
+            const value = arg();
+            if (value !== null && value !== '') return value;
+        }
+        return null;
+    } },
+    NULLIF: { arity: [2, 2], fn: ([a, b]) => a !== null && b !== null && compareValues(a, b) === 0 ? null : a },
+    ISNULL: { arity: [1, 1], fn: ([a]) => a === null || a === '' },
+    ABS: { arity: [1, 1], fn: ([a]) => { const n = toNumber(a, 'ABS'); return n === null ? null : Math.abs(n); } },
+    ROUND: { arity: [1, 2], fn: ([a, digits]) => {
+        const n = toNumber(a, 'ROUND');
+        const d = toNumber(digits ?? 0, 'ROUND') ?? 0;
+        if (n === null) return null;
+        const factor = 10 ** d;
+        return Math.round((n + Math.sign(n) * Number.EPSILON) * factor) / factor;
+    } },
+    FLOOR: { arity: [1, 1], fn: ([a]) => { const n = toNumber(a, 'FLOOR'); return n === null ? null : Math.floor(n); } },
+    CEIL: { arity: [1, 1], fn: ([a]) => { const n = toNumber(a, 'CEIL'); return n === null ? null : Math.ceil(n); } },
+    POWER: { arity: [2, 2], fn: ([a, b]) => { const x = toNumber(a, 'POWER'); const y = toNumber(b, 'POWER'); return x === null || y === null ? null : x ** y; } },
+    SQRT: { arity: [1, 1], fn: ([a]) => {
+        const n = toNumber(a, 'SQRT');
+        if (n !== null && n < 0) throw new ExpressionError(`SQRT of a negative number (${n}).`);
+        return n === null ? null : Math.sqrt(n);
+    } },
+    MIN: { arity: [1, Infinity], fn: args => { const values = args.map(a => toNumber(a, 'MIN')).filter((n): n is number => n !== null); return values.length > 0 ? Math.min(...values) : null; } },
+    MAX: { arity: [1, Infinity], fn: args => { const values = args.map(a => toNumber(a, 'MAX')).filter((n): n is number => n !== null); return values.length > 0 ? Math.max(...values) : null; } },
+    NUMBER: { arity: [1, 1], fn: ([a]) => toNumber(a, 'NUMBER') },
+    TEXT: { arity: [1, 1], fn: ([a]) => toText(a) },
+    UPPER: { arity: [1, 1], fn: ([a]) => toText(a)?.toUpperCase() ?? null },
+    LOWER: { arity: [1, 1], fn: ([a]) => toText(a)?.toLowerCase() ?? null },
+    TRIM: { arity: [1, 1], fn: ([a]) => toText(a)?.trim() ?? null },
+    LEN: { arity: [1, 1], fn: ([a]) => toText(a)?.length ?? null },
+    LEFT: { arity: [2, 2], fn: ([a, n]) => toText(a)?.slice(0, Math.max(0, toNumber(n, 'LEFT') ?? 0)) ?? null },
+    RIGHT: { arity: [2, 2], fn: ([a, n]) => { const text = toText(a); const count = Math.max(0, toNumber(n, 'RIGHT') ?? 0); return text === null ? null : count === 0 ? '' : text.slice(-count); } },
+    SUBSTR: { arity: [2, 3], fn: ([a, start, length]) => {
+        const text = toText(a);
+        if (text === null) return null;
+        const from = Math.max(0, (toNumber(start, 'SUBSTR') ?? 1) - 1);
+        return length === undefined ? text.slice(from) : text.slice(from, from + Math.max(0, toNumber(length, 'SUBSTR') ?? 0));
+    } },
+    CONCAT: { arity: [1, Infinity], fn: args => args.map(a => toText(a) ?? '').join('') },
+    REPLACE: { arity: [3, 3], fn: ([a, search, replacement]) => toText(a)?.split(toText(search) ?? '').join(toText(replacement) ?? '') ?? null },
+    CONTAINS: { arity: [2, 2], fn: ([a, search]) => a === null ? null : String(a).toLowerCase().includes(String(search ?? '').toLowerCase()) },
+    STARTS_WITH: { arity: [2, 2], fn: ([a, prefix]) => a === null ? null : String(a).startsWith(String(prefix ?? '')) },
+    ENDS_WITH: { arity: [2, 2], fn: ([a, suffix]) => a === null ? null : String(a).endsWith(String(suffix ?? '')) },
+    YEAR: { arity: [1, 1], fn: ([a]) => toDate(a, 'YEAR')?.getUTCFullYear() ?? null },
+    MONTH: { arity: [1, 1], fn: ([a]) => { const date = toDate(a, 'MONTH'); return date ? date.getUTCMonth() + 1 : null; } },
+    DAY: { arity: [1, 1], fn: ([a]) => toDate(a, 'DAY')?.getUTCDate() ?? null },
+    // DATEDIFF(end, start[, unit]): whole days, months or years from start to end
+    DATEDIFF: { arity: [2, 3], fn: ([end, start, unitValue]) => {
+        const to = toDate(end, 'DATEDIFF');
+        const from = toDate(start, 'DATEDIFF');
+        if (!to || !from) return null;
+        const unit = dateUnit(unitValue, 'DATEDIFF');
+        if (unit === 'day') return Math.round((to.getTime() - from.getTime()) / 86400000);
+        let months = (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + to.getUTCMonth() - from.getUTCMonth();
+        if (months > 0 && to.getUTCDate() < from.getUTCDate()) months--;
+        if (months < 0 && to.getUTCDate() > from.getUTCDate()) months++;
+        return unit === 'month' ? months : Math.trunc(months / 12);
+    } },
+    DATEADD: { arity: [2, 3], fn: ([date, amount, unitValue]) => {
+        const from = toDate(date, 'DATEADD');
+        const n = toNumber(amount, 'DATEADD');
+        if (!from || n === null) return null;
+        const unit = dateUnit(unitValue, 'DATEADD');
+        if (unit === 'day') return formatIsoDate(new Date(from.getTime() + Math.trunc(n) * 86400000));
+        return formatIsoDate(shiftMonths(from, Math.trunc(n) * (unit === 'year' ? 12 : 1)));
+    } },
+    // EOMONTH(date[, months]): last day of the month, optionally shifted by a number of months (as in Excel)
+    EOMONTH: { arity: [1, 2], fn: ([date, months]) => {
+        const from = toDate(date, 'EOMONTH');
+        if (!from) return null;
+        const shift = Math.trunc(toNumber(months ?? 0, 'EOMONTH') ?? 0);
+        return formatIsoDate(new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth() + shift + 1, 0)));
+    } },
+};
+
+function evaluate(node: Node, row: CsvRow, scalars: Map<string, ExpressionValue>): ExpressionValue {
+    switch (node.type) {
+        case 'literal':
+            return node.value;
+        case 'column': {
+            const value = row[node.name];
+            return value === undefined ? null : value;
+        }
+        case 'scalar':
+            return scalars.get(`${node.dataset}.${node.column}`) ?? null;
+        case 'unary': {
+            const operand = evaluate(node.operand, row, scalars);
+            if (node.operator === 'NOT') return operand === null ? null : !isTruthy(operand);
+            const n = toNumber(operand, `Unary "${node.operator}"`);
+            return n === null ? null : node.operator === '-' ? -n : n;
+        }
+        case 'conditional':
+            return isTruthy(evaluate(node.test, row, scalars)) ? evaluate(node.consequent, row, scalars) : evaluate(node.alternate, row, scalars);
+        case 'case': {
+            const subject = node.subject ? evaluate(node.subject, row, scalars) : null;
+            for (const branch of node.branches) {
+                const when = evaluate(branch.when, row, scalars);
+                const matched = node.subject ? subject !== null && when !== null && compareValues(subject, when) === 0 : isTruthy(when);
+                if (matched) return evaluate(branch.then, row, scalars);
+            }
+            return node.otherwise ? evaluate(node.otherwise, row, scalars) : null;
+        }
+        case 'call': {
+            const definition = FUNCTIONS[node.name];
+            return definition.lazy === true
+                ? definition.fn(node.args.map(arg => () => evaluate(arg, row, scalars)))
+                : definition.fn(node.args.map(arg => evaluate(arg, row, scalars)));
+        }
+        case 'binary': {
+            if (node.operator === 'AND' || node.operator === 'OR') {
+                const left = isTruthy(evaluate(node.left, row, scalars));
+                if (node.operator === 'AND' ? !left : left) return left;
+                return isTruthy(evaluate(node.right, row, scalars));
+            }
+            const left = evaluate(node.left, row, scalars);
+            const right = evaluate(node.right, row, scalars);
+            // "+" adds numbers and concatenates anything else, as the previous JavaScript-based evaluation did
+            if (node.operator === '+' && left !== null && right !== null && (typeof left === 'string' || typeof right === 'string') && (!isNumeric(left) || !isNumeric(right))) {
+                return `${left}${right}`;
+            }
+            switch (node.operator) {
+                case '==':
+                    return left === null || right === null ? left === right : compareValues(left, right) === 0;
+                case '!=':
+                    return left === null || right === null ? left !== right : compareValues(left, right) !== 0;
+                case '<': case '<=': case '>': case '>=': {
+                    if (left === null || right === null) return null;
+                    const order = compareValues(left, right);
+                    return node.operator === '<' ? order < 0 : node.operator === '<=' ? order <= 0 : node.operator === '>' ? order > 0 : order >= 0;
+                }
+                case '&':
+                    return `${toText(left) ?? ''}${toText(right) ?? ''}`;
+                default: {
+                    const a = toNumber(left, `Operator "${node.operator}"`);
+                    const b = toNumber(right, `Operator "${node.operator}"`);
+                    if (a === null || b === null) return null;
+                    switch (node.operator) {
+                        case '+': return a + b;
+                        case '-': return a - b;
+                        case '*': return a * b;
+                        case '/':
+                            if (b === 0) throw new ExpressionError('Division by zero.');
+                            return a / b;
+                        case '%':
+                            if (b === 0) throw new ExpressionError('Division by zero.');
+                            return a % b;
+                        default:
+                            throw new ExpressionError(`Unsupported operator "${node.operator}".`);
+                    }
+                }
+            }
+        }
+    }
+}
+
+export interface CompiledExpression {
+    columns: string[];
+    scalars: { dataset: string; column: string }[];
+    evaluate: (row: CsvRow, scalarValues: Map<string, ExpressionValue>) => ExpressionValue;
+}
+
+// Parses an expression once; throws ExpressionError with the position of the first syntax error.
+export function compileExpression(source: string): CompiledExpression {
+    const ast = new Parser(tokenize(String(source ?? ''))).parse();
+    const columns = new Set<string>();
+    const scalars = new Map<string, { dataset: string; column: string }>();
+    const visit = (node: Node) => {
+        switch (node.type) {
+            case 'column': columns.add(node.name); break;
+            case 'scalar': scalars.set(`${node.dataset}.${node.column}`, { dataset: node.dataset, column: node.column }); break;
+            case 'unary': visit(node.operand); break;
+            case 'binary': visit(node.left); visit(node.right); break;
+            case 'conditional': visit(node.test); visit(node.consequent); visit(node.alternate); break;
+            case 'case':
+                if (node.subject) visit(node.subject);
+                node.branches.forEach(b => { visit(b.when); visit(b.then); });
+                if (node.otherwise) visit(node.otherwise);
+                break;
+            case 'call': node.args.forEach(visit); break;
+        }
+    };
+    visit(ast);
+    return {
+        columns: [...columns],
+        scalars: [...scalars.values()],
+        evaluate: (row, scalarValues) => evaluate(ast, row, scalarValues),
+    };
+}
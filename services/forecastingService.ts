@@ -0,0 +1,268 @@
+// Univariate forecasting models used by the forecast tools. Every model works on an evenly spaced
+// series of values and returns point forecasts together with standard errors per horizon step.
+
+export type ForecastModel = 'linear' | 'naive_seasonal' | 'holt_winters' | 'arima';
+
+export const FORECAST_MODELS: ForecastModel[] = ['linear', 'naive_seasonal', 'holt_winters', 'arima'];
+
+export interface ModelForecast {
+    model: ForecastModel;
+    description: string;
+    point: number[];
+    stdErrors: number[];
+}
+
+export interface ErrorMetrics {
+    mape: number | null;
+    rmse: number;
+    mae: number;
+}
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const residualStdDev = (residuals: number[], parameters: number) => {
+    const dof = Math.max(1, residuals.length - parameters);
+    return Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / dof);
+};
+
+// MAPE skips periods whose actual value is zero, and is null when every actual value is zero.
+export function calculateErrorMetrics(actual: number[], forecast: number[]): ErrorMetrics {
+    const errors = actual.map((a, i) => a - forecast[i]);
+    const percentageErrors = actual.map((a, i) => a !== 0 ? Math.abs(errors[i] / a) : null).filter((e): e is number => e !== null);
+    return {
+        mape: percentageErrors.length > 0 ? mean(percentageErrors) * 100 : null,
+        rmse: Math.sqrt(mean(errors.map(e => e * e))),
+        mae: mean(errors.map(e => Math.abs(e))),
+    };
+}
+
+function forecastLinear(values: number[], horizon: number): ModelForecast {
+    const n = values.length;
+    if (n < 3) {
+        throw new Error('The linear model requires at least three data points.');
+    }
+    const xMean = (n - 1) / 2;
+    const yMean = mean(values);
+    const sxx = values.reduce((sum, _, t) => sum + (t - xMean) ** 2, 0);
+    const slope = values.reduce((sum, y, t) => sum + (t - xMean) * (y - yMean), 0) / sxx;
+    const intercept = yMean - slope * xMean;
+    const sigma = residualStdDev(values.map((y, t) => y - (intercept + slope * t)), 2);
+
+    const point: number[] = [];
+    const stdErrors: number[] = [];
+    for (let h = 1; h <= horizon; h++) {
+        const t = n - 1 + h;
+        point.push(intercept + slope * t);
+        // Prediction interval of a regression line widens with the distance from the fitted range
+        stdErrors.push(sigma * Math.sqrt(1 + 1 / n + (t - xMean) ** 2 / sxx));
+    }
+    return { model: 'linear', description: 'Linear trend', point, stdErrors };
+}
+
+function forecastNaiveSeasonal(values: number[], horizon: number, seasonLength: number): ModelForecast {
+    const m = Math.max(1, seasonLength);
+    const n = values.length;
+    if (n < m + 2) {
+        throw new Error(`The naive seasonal model requires at least ${m + 2} data points.`);
+    }
+    const sigma = residualStdDev(values.slice(m).map((y, i) => y - values[i]), 0);
+
+    const point: number[] = [];
+    const stdErrors: number[] = [];
+    for (let h = 1; h <= horizon; h++) {
+        const completedSeasons = Math.floor((h - 1) / m);
+        point.push(values[n - m + ((h - 1) % m)]);
+        stdErrors.push(sigma * Math.sqrt(completedSeasons + 1));
+    }
+    return { model: 'naive_seasonal', description: m > 1 ? `Seasonal naive (period ${m})` : 'Naive (last value)', point, stdErrors };
+}
+
+// Additive Holt-Winters; falls back to Holt's linear trend when the series covers fewer than two seasons.
+function forecastHoltWinters(values: number[], horizon: number, seasonLength: number): ModelForecast {
+    const n = values.length;
+    const m = seasonLength >= 2 && n >= 2 * seasonLength ? seasonLength : 0;
+    if (n < 4) {
+        throw new Error('The Holt-Winters model requires at least four data points.');
+    }
+
+    const run = (alpha: number, beta: number, gamma: number) => {
+        let level: number;
+        let trend: number;
+        let seasonals: number[];
+        let start: number;
+        if (m > 0) {
+            const firstSeason = mean(values.slice(0, m));
+            level = firstSeason;
+            trend = (mean(values.slice(m, 2 * m)) - firstSeason) / m;
+            seasonals = values.slice(0, m).map(v => v - firstSeason);
+            start = m;
+        } else {
+            level = values[0];
+            trend = values[1] - values[0];
+            seasonals = [];
+            start = 1;
+        }
+        let sse = 0;
+        const residuals: number[] = [];
+        for (let t = start; t < n; t++) {
+            const seasonal = m > 0 ? seasonals[t % m] : 0;
+            const residual = values[t] - (level + trend + seasonal);
+            residuals.push(residual);
+            sse += residual * residual;
+            const previousLevel = level;
+            level = alpha * (values[t] - seasonal) + (1 - alpha) * (level + trend);
+            trend = beta * (level - previousLevel) + (1 - beta) * trend;
+            if (m > 0) seasonals[t % m] = gamma * (values[t] - level) + (1 - gamma) * seasonal;
+        }
+        return { sse, residuals, level, trend, seasonals };
+    };
+
+    // Smoothing parameters are chosen by a grid search on the one-step-ahead squared errors
+    const grid = [0.05, 0.1, 0.2, 0.3, 0.5, 0.7, 0.9];
+    let best: { alpha: number; beta: number; gamma: number; fit: ReturnType<typeof run> } | null = null;
+    for (const alpha of grid) {
+        for (const beta of grid) {
+            for (const gamma of m > 0 ? grid : [0]) {
+                const fit = run(alpha, beta, gamma);
+                if (!best || fit.sse < best.fit.sse) best = { alpha, beta, gamma, fit };
+            }
+        }
+    }
+    const { alpha, beta, gamma, fit } = best!;
+    const sigma = residualStdDev(fit.residuals, m > 0 ? 3 : 2);
+
+    const point: number[] = [];
+    const stdErrors: number[] = [];
+    let varianceFactor = 1;
+    for (let h = 1; h <= horizon; h++) {
+        const seasonal = m > 0 ? fit.seasonals[(n + h - 1) % m] : 0;
+        point.push(fit.level + h * fit.trend + seasonal);
+        stdErrors.push(sigma * Math.sqrt(varianceFactor));
+        // Variance of the additive Holt-Winters forecast error grows by the squared error weight of each step
+        const j = h;
+        varianceFactor += (alpha * (1 + j * beta) + (m > 0 && j % m === 0 ? gamma * (1 - alpha) : 0)) ** 2;
+    }
+    const description = m > 0
+        ? `Holt-Winters additive (period ${m}, alpha=${alpha}, beta=${beta}, gamma=${gamma})`
+        : `Holt linear trend (alpha=${alpha}, beta=${beta})`;
+    return { model: 'holt_winters', description, point, stdErrors };
+}
+
+// Least-squares AR(p) with intercept on the series; returns null when the normal equations are singular.
+function fitAutoregression(series: number[], p: number): { coefficients: number[]; intercept: number; residuals: number[] } | null {
+    const rows = series.length - p;
+    if (rows <= p + 1) return null;
+    const size = p + 1;
+    const xtx = Array.from({ length: size }, () => new Array(size).fill(0));
+    const xty = new Array(size).fill(0);
+    for (let t = p; t < series.length; t++) {
+        const x = [1, ...Array.from({ length: p }, (_, i) => series[t - i - 1])];
+        for (let i = 0; i < size; i++) {
+            xty[i] += x[i] * series[t];
+            for (let j = 0; j < size; j++) xtx[i][j] += x[i] * x[j];
+        }
+    }
+    // Gaussian elimination with partial pivoting
+    const a = xtx.map((row, i) => [...row, xty[i]]);
+    for (let col = 0; col < size; col++) {
+        let pivot = col;
+        for (let r = col + 1; r < size; r++) if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+        if (Math.abs(a[pivot][col]) < 1e-12) return null;
+        [a[col], a[pivot]] = [a[pivot], a[col]];
+        for (let r = 0; r < size; r++) {
+            if (r === col) continue;
+            const factor = a[r][col] / a[col][col];
+            for (let c = col; c <= size; c++) a[r][c] -= factor * a[col][c];
+        }
+    }
+    const beta = a.map((row, i) => row[size] / row[i]);
+    const residuals: number[] = [];
+    for (let t = p; t < series.length; t++) {
+        residuals.push(series[t] - beta[0] - beta.slice(1).reduce((sum, c, i) => sum + c * series[t - i - 1], 0));
+    }
+    return { intercept: beta[0], coefficients: beta.slice(1), residuals };
+}
+
+// ARIMA(p,1,0) with drift; the AR order (0-3) is chosen by AIC on the differenced series.
+function forecastArima(values: number[], horizon: number): ModelForecast {
+    const n = values.length;
+    if (n < 8) {
+        throw new Error('The ARIMA model requires at least eight data points.');
+    }
+    const differences = values.slice(1).map((v, i) => v - values[i]);
+
+    let best: { p: number; aic: number; fit: NonNullable<ReturnType<typeof fitAutoregression>> } | null = null;
+    for (let p = 0; p <= 3; p++) {
+        // Compare orders on the same sample so that AIC values are comparable
+        const fit = fitAutoregression(differences.slice(3 - p), p);
+        if (!fit) continue;
+        const sse = fit.residuals.reduce((sum, r) => sum + r * r, 0);
+        const aic = fit.residuals.length * Math.log(Math.max(sse, 1e-12) / fit.residuals.length) + 2 * (p + 1);
+        if (!best || aic < best.aic) best = { p, aic, fit };
+    }
+    if (!best) {
+        throw new Error('The ARIMA model could not be estimated for this series.');
+    }
+    const { p, fit } = best;
+    const sigma = residualStdDev(fit.residuals, p + 1);
+
+    const history = [...differences];
+    const point: number[] = [];
+    let level = values[n - 1];
+    for (let h = 1; h <= horizon; h++) {
+        const next = fit.intercept + fit.coefficients.reduce((sum, c, i) => sum + c * history[history.length - 1 - i], 0);
+        history.push(next);
+        level += next;
+        point.push(level);
+    }
+
+    // Psi weights of the integrated process (1 - sum(phi_i B^i))(1 - B) give the forecast error variance
+    const phi = new Array(p + 2).fill(0);
+    phi[1] = 1;
+    fit.coefficients.forEach((c, i) => {
+        phi[i + 1] += c;
+        phi[i + 2] -= c;
+    });
+    const psi = [1];
+    for (let j = 1; j < horizon; j++) {
+        let value = 0;
+        for (let i = 1; i <= Math.min(j, p + 1); i++) value += phi[i] * psi[j - i];
+        psi.push(value);
+    }
+    let cumulative = 0;
+    const stdErrors = psi.map(w => {
+        cumulative += w * w;
+        return sigma * Math.sqrt(cumulative);
+    });
+    return { model: 'arima', description: `ARIMA(${p},1,0) with drift`, point, stdErrors };
+}
+
+export function fitForecastModel(model: ForecastModel, values: number[], horizon: number, seasonLength: number): ModelForecast {
+    switch (model) {
+        case 'linear':
+            return forecastLinear(values, horizon);
+        case 'naive_seasonal':
+            return forecastNaiveSeasonal(values, horizon, seasonLength);
+        case 'holt_winters':
+            return forecastHoltWinters(values, horizon, seasonLength);
+        case 'arima':
+            return forecastArima(values, horizon);
+        default:
+            throw new Error(`Unsupported forecast model: ${model}. Available models: ${FORECAST_MODELS.join(', ')}.`);
+    }
+}
+
+// Fits every candidate on all but the last `holdout` values and scores it on the withheld ones.
+// Candidates without enough data are reported with an error instead of metrics.
+export function evaluateOnHoldout(values: number[], holdout: number, seasonLength: number, candidates: ForecastModel[] = FORECAST_MODELS) {
+    const train = values.slice(0, values.length - holdout);
+    const actual = values.slice(values.length - holdout);
+    return candidates.map(model => {
+        try {
+            const { point, description } = fitForecastModel(model, train, holdout, seasonLength);
+            return { model, description, metrics: calculateErrorMetrics(actual, point), error: null };
+        } catch (e) {
+            return { model, description: null, metrics: null, error: e instanceof Error ? e.message : String(e) };
+        }
+    });
+}
@@ -1,10 +1,53 @@
 
-import { FunctionDeclaration, Type, Part, Chat, GenerateContentResponse, GoogleGenAI } from '@google/genai';
+import { FunctionDeclaration, Type, Part, Chat, GenerateContentResponse, GoogleGenAI, Schema } from '@google/genai';
 import type { DataSets, AnalysisStep, MessageContent, StrategistResponse, ClarificationState, VisualContent, ChatMessage, TextContent, ReportContent, DataSet } from '../types';
 import type { ToolExecutor } from './toolExecutor.tsx';
 import { FINAL_REVIEWER_PROMPT, STRATEGIST_PROMPT } from '../constants';
 import logger from './loggingService';
 
+// One condition of a compound filter_data filter, shared by the top level and nested groups
+const FILTER_CONDITION_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        column: { type: Type.STRING, description: 'The column to test.' },
+        operator: {
+            type: Type.STRING,
+            enum: ['==', '!=', '>', '<', '>=', '<=', 'contains', 'in', 'not_in', 'between', 'is_null', 'is_not_null', 'regex'],
+            description: '"in"/"not_in" take a list in "values"; "between" takes [min, max] (inclusive) in "values"; "regex" is case-insensitive; "is_null"/"is_not_null" take no value.',
+        },
+        value: { type: Type.STRING, description: 'The value to compare against, or the regular expression for "regex".' },
+        values: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'The list of values for "in", "not_in" and "between".' },
+    },
+    required: ['column', 'operator'],
+};
+
+// One aggregation of aggregate_data or pivot_dataset
+const AGGREGATION_SPEC_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        column: { type: Type.STRING, description: 'The column to aggregate. Not needed for "count".' },
+        function: {
+            type: Type.STRING,
+            enum: ['sum', 'count', 'average', 'max', 'min', 'median', 'stddev', 'percentile', 'count_distinct', 'first', 'last', 'weighted_average'],
+            description: '"stddev" is the sample standard deviation; "first" and "last" take the first and last non-empty value in dataset order.'
+        },
+        alias: { type: Type.STRING, description: 'Name of the output column (no spaces).' },
+        percentile: { type: Type.NUMBER, description: 'Percentile between 0 and 100, required for "percentile" (e.g., 90).' },
+        weight_column: { type: Type.STRING, description: 'Weight column, required for "weighted_average" (e.g., principal_amount for a weighted average interest rate).' },
+    },
+    required: ['function'],
+};
+
+// One sort key of sort_dataset, top_n and add_window_columns
+const SORT_KEY_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        column: { type: Type.STRING, description: 'The column to sort by. Dates and numbers are compared by value.' },
+        direction: { type: Type.STRING, enum: ['asc', 'desc'], description: 'Sort direction. Defaults to "asc". Empty values always sort last.' },
+    },
+    required: ['column'],
+};
+
 const toolSchemas: FunctionDeclaration[] = [
     {
         name: 'get_dataset_schema',
@@ -19,41 +62,172 @@ const toolSchemas: FunctionDeclaration[] = [
     },
     {
         name: 'filter_data',
-        description: 'Filter a dataset based on a condition.',
+        description: 'Filter a dataset based on a condition. For a single condition, pass column, operator and value. For several conditions in one call (e.g., "EUR accounts in DE01 with balance > 1M"), pass a "filter" object instead: its conditions are combined with "logic" (AND by default), nested "groups" allow mixing AND and OR, and "negate" turns a group into NOT. Comparisons are date-aware when both sides are dates and numeric when both sides are numbers. Rows with an empty value only match "is_null".',
         parameters: {
             type: Type.OBJECT,
             properties: {
                 dataset_name: { type: Type.STRING, description: 'Name of the dataset to filter.' },
-                column: { type: Type.STRING, description: 'The column to apply the filter on.' },
-                operator: { type: Type.STRING, description: 'The comparison operator (e.g., "==", "!=", ">", "<", "contains").' },
+                column: { type: Type.STRING, description: 'The column to apply the filter on (single-condition form).' },
+                operator: { type: Type.STRING, description: 'The comparison operator (e.g., "==", "!=", ">", "<", "contains"). All operators listed for "filter" are also accepted.' },
                 value: { type: Type.STRING, description: 'The value to compare against.' },
+                filter: {
+                    type: Type.OBJECT,
+                    description: 'Compound filter. Takes precedence over column, operator and value.',
+                    properties: {
+                        logic: { type: Type.STRING, enum: ['AND', 'OR'], description: 'How conditions and groups are combined. Defaults to "AND".' },
+                        negate: { type: Type.BOOLEAN, description: 'If true, keeps the rows that do NOT match.' },
+                        conditions: {
+                            type: Type.ARRAY,
+                            items: FILTER_CONDITION_SCHEMA,
+                        },
+                        groups: {
+                            type: Type.ARRAY,
+                            description: 'Nested condition groups, e.g. an OR group inside an AND filter.',
+                            items: {
+                                type: Type.OBJECT,
+                                properties: {
+                                    logic: { type: Type.STRING, enum: ['AND', 'OR'], description: 'How the conditions of this group are combined. Defaults to "AND".' },
+                                    negate: { type: Type.BOOLEAN, description: 'If true, the group matches the rows that do NOT satisfy it.' },
+                                    conditions: {
+                                        type: Type.ARRAY,
+                                        items: FILTER_CONDITION_SCHEMA,
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
             },
-            required: ['dataset_name', 'column', 'operator', 'value'],
+            required: ['dataset_name'],
         },
     },
     {
         name: 'aggregate_data',
-        description: "Aggregate data by grouping and applying functions. The resulting aggregated column will be named using underscores as '[aggregation_column]_[aggregation_function]' (e.g., 'amount_sum') and will not contain spaces.",
+        description: "Aggregate data by grouping and applying functions. Either pass a single aggregation_column and aggregation_function, or pass an 'aggregations' list to compute several metrics in one step. Without an alias, each aggregated column is named using underscores as '[column]_[function]' (e.g., 'amount_sum'; 'amount_p90' for percentiles) and will not contain spaces.",
         parameters: {
             type: Type.OBJECT,
             properties: {
                 dataset_name: { type: Type.STRING, description: 'Name of the dataset to aggregate.' },
-                group_by_columns: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Columns to group the data by.' },
-                aggregation_column: { type: Type.STRING, description: 'The column to perform the aggregation on.' },
-                aggregation_function: { type: Type.STRING, description: 'The aggregation function (e.g., "sum", "count", "average", "max", "min").' },
+                group_by_columns: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Columns to group the data by. Use an empty array to aggregate the whole dataset into one row.' },
+                aggregation_column: { type: Type.STRING, description: 'The column to perform the aggregation on (single-metric form).' },
+                aggregation_function: { type: Type.STRING, description: 'The aggregation function for the single-metric form (e.g., "sum", "count", "average", "max", "min").' },
+                aggregations: {
+                    type: Type.ARRAY,
+                    description: 'Multiple aggregations computed in one step. Takes precedence over aggregation_column and aggregation_function.',
+                    items: AGGREGATION_SPEC_SCHEMA,
+                },
+            },
+            required: ['dataset_name', 'group_by_columns'],
+        },
+    },
+    {
+        name: 'pivot_dataset',
+        description: "Builds a cross-tab from a long-form dataset, e.g. currencies down and companies across. Rows are the distinct combinations of `index_columns`, sorted ascending; each distinct value of `pivot_column` becomes a column, sorted ascending unless `column_values` fixes the order. With one value aggregation each cell column is named after the pivot value (e.g., 'JP01'); with several it is named '[pivot value]_[alias]' (e.g., 'JP01_balance_sum'). A 'total' column (or 'total_[alias]') is added by default, and a final row labelled 'Total' can be added with `total_row`; totals are aggregated from the underlying rows. Use `render_table` to show the result.",
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                dataset_name: { type: Type.STRING, description: 'Name of the long-form dataset to pivot.' },
+                index_columns: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Columns that form the rows (e.g., ["currency"]).' },
+                pivot_column: { type: Type.STRING, description: 'Column whose values become the output columns (e.g., "company_code").' },
+                values: {
+                    type: Type.ARRAY,
+                    description: 'One or more aggregations computed for every cell.',
+                    items: AGGREGATION_SPEC_SCHEMA,
+                },
+                total_column: { type: Type.BOOLEAN, description: 'Optional. Add a total column per value aggregation. Defaults to true.' },
+                total_row: { type: Type.BOOLEAN, description: 'Optional. Add a "Total" row at the bottom, labelled in the first index column. Defaults to false; enable it only for a table that is displayed as is, since the label mixes into a numeric or date index column.' },
+                column_values: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Optional. Pivot values to show first, in this order (e.g., ["JP01", "US01"]). Other values follow in ascending order.' },
+                fill_value: { type: Type.NUMBER, description: 'Optional. Value for cells without any rows (e.g., 0). Defaults to null.' },
+            },
+            required: ['dataset_name', 'index_columns', 'pivot_column', 'values'],
+        },
+    },
+    {
+        name: 'unpivot_dataset',
+        description: 'Turns a wide dataset (such as the output of `pivot_dataset`) back into long form: every value column of every row becomes one row holding the id columns, the source column name and its value. Rows keep the source order.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                dataset_name: { type: Type.STRING, description: 'Name of the wide dataset.' },
+                id_columns: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Columns copied to every output row (e.g., ["currency"]).' },
+                value_columns: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Optional. Columns to unpivot, in output order. Defaults to every column that is not an id column.' },
+                variable_column_name: { type: Type.STRING, description: 'Optional. Name of the output column holding the source column names. Defaults to "variable".' },
+                value_column_name: { type: Type.STRING, description: 'Optional. Name of the output column holding the values. Defaults to "value".' },
+                drop_nulls: { type: Type.BOOLEAN, description: 'Optional. Skip empty values. Defaults to false.' },
+            },
+            required: ['dataset_name', 'id_columns'],
+        },
+    },
+    {
+        name: 'sort_dataset',
+        description: 'Sorts a dataset by one or more columns, each ascending or descending. Rows that tie on every key keep their original order.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                dataset_name: { type: Type.STRING, description: 'Name of the dataset to sort.' },
+                sort_by: { type: Type.ARRAY, items: SORT_KEY_SCHEMA, description: 'Sort keys in priority order (e.g., [{"column": "company_code"}, {"column": "amount", "direction": "desc"}]).' },
             },
-            required: ['dataset_name', 'group_by_columns', 'aggregation_column', 'aggregation_function'],
+            required: ['dataset_name', 'sort_by'],
         },
     },
+    {
+        name: 'top_n',
+        description: 'Keeps the first `n` rows by the given sort order, either overall or within each group (e.g., the top 10 counterparties by overdue AP, or the top 3 lenders per company). Use `aggregate_data` first when the ranking is by a total. Groups are listed in ascending order of their key.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                dataset_name: { type: Type.STRING, description: 'Name of the dataset.' },
+                n: { type: Type.NUMBER, description: 'Number of rows to keep per group (or overall).' },
+                sort_by: { type: Type.ARRAY, items: SORT_KEY_SCHEMA, description: 'Ranking order, e.g. [{"column": "amount_sum", "direction": "desc"}] for the largest values.' },
+                group_by_columns: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Optional. Columns that define the groups. Omit for an overall top N.' },
+                rank_column: { type: Type.STRING, description: 'Optional. Name of a column to add with the position (1 to n) within the group.' },
+            },
+            required: ['dataset_name', 'n', 'sort_by'],
+        },
+    },
+    {
+        name: 'add_window_columns',
+        description: 'Adds window calculations as new columns, computed within each partition (`partition_by`) in `order_by` order: "running_total", "moving_average" (trailing `window_size` rows; null until the window is full), "difference" and "pct_change" (period-over-period versus the row `periods` rows earlier; pct_change is in percent of the absolute earlier value, so it stays positive when a negative flow shrinks), "lag" (the value `periods` rows earlier), "row_number", "rank" and "dense_rank" (by the column value; ties share a rank), and "share_of_total" (percent of the partition total). Output rows are ordered by partition and then by `order_by`.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                dataset_name: { type: Type.STRING, description: 'Name of the dataset.' },
+                windows: {
+                    type: Type.ARRAY,
+                    description: 'The calculations to add.',
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            function: {
+                                type: Type.STRING,
+                                enum: ['running_total', 'moving_average', 'difference', 'pct_change', 'lag', 'row_number', 'rank', 'dense_rank', 'share_of_total'],
+                                description: 'The window function. All except "rank", "dense_rank" and "share_of_total" require order_by.',
+                            },
+                            column: { type: Type.STRING, description: 'The value column. Not needed for "row_number".' },
+                            alias: { type: Type.STRING, description: 'Name of the new column (no spaces). Defaults to "[column]_[function]", "[column]_ma[window_size]" for moving averages and "[column]_share_pct" for shares.' },
+                            window_size: { type: Type.NUMBER, description: 'Number of rows for "moving_average" (e.g., 3). Defaults to 3.' },
+                            periods: { type: Type.NUMBER, description: 'Offset in rows for "difference", "pct_change" and "lag" (e.g., 12 for year-over-year on monthly data). Defaults to 1.' },
+                            direction: { type: Type.STRING, enum: ['asc', 'desc'], description: 'For "rank" and "dense_rank": "desc" (default) gives rank 1 to the largest value.' },
+                        },
+                        required: ['function'],
+                    },
+                },
+                partition_by: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Optional. Columns that split the data into independent partitions (e.g., ["currency"]).' },
+                order_by: { type: Type.ARRAY, items: SORT_KEY_SCHEMA, description: 'Row order within each partition (e.g., [{"column": "period_start"}]).' },
+            },
+            required: ['dataset_name', 'windows'],
+        },
+    },
+
      {
         name: 'add_column',
-        description: "Add a new column to a dataset. This can be based on an arithmetic expression involving two columns or a column and a number (e.g., \"column_a * column_b\" or \"column_a + 100\" or \"-1*column_a\"). Supported operators: +, -, *, /. It can also be used to duplicate an existing column by providing just the column name as the expression (e.g., \"balance\"), or to create a column with a constant value by providing a number (e.g., \"0\") or a quoted string (e.g., \"'some_text'\"). Crucially, it supports using a scalar value from another single-row dataset in the expression, using the syntax 'column_a * [other_dataset].scalar_column'. It also supports conditional logic using a ternary operator with logical operators (&&, ||), e.g., \"column_a > 100 ? 'high' : 'low'\" or \"(column_a == 'AR' || column_a == 'AP') ? -1 * column_b : column_b\".",
+        description: "Add a new column to a dataset, computed per row with a safe expression language (no JavaScript). Refer to columns by name (use backticks for names with spaces, e.g. `net amount`) and quote text with '...'. Supported: arithmetic (+, -, *, /, %), '&' for text concatenation, comparisons (==, !=, <, <=, >, >=), logic (&&, ||, !, or AND, OR, NOT), the ternary operator (e.g., \"column_a > 100 ? 'high' : 'low'\" or \"(column_a == 'AR' || column_a == 'AP') ? -1 * column_b : column_b\"), and CASE WHEN cond THEN value [WHEN ...] [ELSE value] END. Functions: IF(cond, a, b), COALESCE(a, b, ...), NULLIF, ISNULL, ABS, ROUND(x, digits), FLOOR, CEIL, POWER, SQRT, MIN, MAX, NUMBER, TEXT, UPPER, LOWER, TRIM, LEN, LEFT, RIGHT, SUBSTR(text, start, length) (1-based), CONCAT, REPLACE, CONTAINS(text, part), STARTS_WITH, ENDS_WITH, YEAR, MONTH, DAY, DATEDIFF(end_date, start_date[, 'day'|'month'|'year']), DATEADD(date, n[, unit]), EOMONTH(date[, months]). Dates are YYYY-MM-DD text. It also supports using a scalar value from another single-row dataset, using the syntax 'column_a * [other_dataset].scalar_column'. Rows where the calculation fails (e.g., division by zero) get null and are reported in the warning.",
         parameters: {
             type: Type.OBJECT,
             properties: {
                 dataset_name: { type: Type.STRING, description: 'Name of the dataset to modify.' },
                 new_column_name: { type: Type.STRING, description: 'The name of the new column to create. It must not contain spaces; use underscores instead (e.g., "impact_amount").' },
-                expression: { type: Type.STRING, description: 'The arithmetic expression to calculate the new column\'s value.' },
+                expression: { type: Type.STRING, description: 'The expression to calculate the new column\'s value.' },
             },
             required: ['dataset_name', 'new_column_name', 'expression'],
         },
@@ -72,22 +246,29 @@ const toolSchemas: FunctionDeclaration[] = [
     },
     {
         name: 'join_datasets',
-        description: 'Performs a join on two datasets based on a key column. If column names conflict (excluding the join key), the column from the right dataset will be renamed with a "_right" suffix (e.g., "amount_right"). Supports "inner", "left", "right", and "full" joins.',
+        description: 'Joins two datasets on one or more key columns. Supports "inner", "left", "right" and "full" joins on exact key matches, plus an "asof" join that matches each left row to the latest right row whose date is at or before the left row\'s date (within the same key columns, if any), e.g. matching `account_balances.evaluation_date` to `fx_rates.rate_date` by currency when a rate date is missing. The "asof" join keeps every left row; unmatched rows get nulls for the right columns. Key columns are merged into the left key column. Other columns that exist in both datasets are renamed with `right_suffix` (default "_right") on the right side and `left_suffix` (default none) on the left side.',
         parameters: {
             type: Type.OBJECT,
             properties: {
                 left_dataset_name: { type: Type.STRING, description: 'Name of the left dataset.' },
                 right_dataset_name: { type: Type.STRING, description: 'Name of the right dataset.' },
-                left_on_column: { type: Type.STRING, description: 'The key column in the left dataset.' },
-                right_on_column: { type: Type.STRING, description: 'The key column in the right dataset.' },
-                join_type: { type: Type.STRING, description: 'The type of join to perform. Supported values: "inner", "left", "right", "full".' },
+                left_on_column: { type: Type.STRING, description: 'The key column in the left dataset, for a single-column key.' },
+                right_on_column: { type: Type.STRING, description: 'The key column in the right dataset, for a single-column key.' },
+                left_on_columns: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Optional. Key columns in the left dataset for a composite key (e.g., ["currency", "evaluation_date"]). Takes precedence over left_on_column.' },
+                right_on_columns: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Optional. Key columns in the right dataset, in the same order as left_on_columns (e.g., ["currency", "rate_date"]). Takes precedence over right_on_column.' },
+                join_type: { type: Type.STRING, description: 'The type of join to perform. Supported values: "inner", "left", "right", "full", "asof".' },
+                left_asof_column: { type: Type.STRING, description: 'Required for "asof" joins. Date column in the left dataset (e.g., "evaluation_date"). Do not also list it in left_on_columns.' },
+                right_asof_column: { type: Type.STRING, description: 'Required for "asof" joins. Date column in the right dataset (e.g., "rate_date"). Do not also list it in right_on_columns.' },
+                asof_tolerance_days: { type: Type.NUMBER, description: 'Optional. For "asof" joins, the maximum number of days the matched right date may precede the left date. Unlimited by default.' },
+                right_suffix: { type: Type.STRING, description: 'Optional. Suffix for right-side columns whose names collide with left-side columns. Defaults to "_right".' },
+                left_suffix: { type: Type.STRING, description: 'Optional. Suffix for left-side columns whose names collide with right-side columns. Defaults to no suffix.' },
             },
-            required: ['left_dataset_name', 'right_dataset_name', 'left_on_column', 'right_on_column', 'join_type'],
+            required: ['left_dataset_name', 'right_dataset_name', 'join_type'],
         },
     },
     {
         name: 'union_datasets',
-        description: 'Vertically concatenates rows from two or more datasets into a single dataset. All datasets must have identical column names and order.',
+        description: 'Vertically concatenates rows from two or more datasets into a single dataset. In the default "strict" mode all datasets must have identical column names and order. In "by_name" mode columns are aligned by name, in the order they first appear, and columns missing from a dataset are filled with null (e.g., to combine an AR-impact dataset with a loan-impact dataset). Columns can be renamed before alignment with `column_mapping`, and `source_column` adds a column holding the name of the dataset each row came from.',
         parameters: {
             type: Type.OBJECT,
             properties: {
@@ -96,13 +277,28 @@ const toolSchemas: FunctionDeclaration[] = [
                     items: { type: Type.STRING },
                     description: 'An array containing the names of at least two datasets to union.',
                 },
+                mode: { type: Type.STRING, description: 'Optional. "strict" (default) requires identical columns in the same order; "by_name" aligns columns by name and fills missing columns with null.' },
+                column_mapping: {
+                    type: Type.ARRAY,
+                    description: 'Optional. Columns to rename before the union, e.g. [{"dataset_name": "step_3_result", "from_column": "principal_amount", "to_column": "amount"}].',
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            dataset_name: { type: Type.STRING, description: 'Dataset whose column is renamed. Omit to rename the column in every dataset that has it.' },
+                            from_column: { type: Type.STRING, description: 'Current column name.' },
+                            to_column: { type: Type.STRING, description: 'New column name.' },
+                        },
+                        required: ['from_column', 'to_column'],
+                    },
+                },
+                source_column: { type: Type.STRING, description: 'Optional. Name of a column to add that records the source dataset name of each row (e.g., "source_dataset").' },
             },
             required: ['dataset_names'],
         },
     },
     {
         name: 'forecast_time_series',
-        description: 'Forecast future values of a time series using linear regression. This tool adds new columns to the dataset: "forecast", "forecast_upper", and "forecast_lower".',
+        description: 'Forecast future values of a time series. Values are summed per period of `frequency` (weeks start on Monday, months and quarters on their first day), and periods without data count as 0. Available models are a linear trend, a naive seasonal baseline, additive Holt-Winters exponential smoothing and ARIMA(p,1,0). With model "auto" (the default), every model is backtested on the last periods and the one with the lowest RMSE is used. The result dataset holds the aggregated series (one row per period with `date_column` and `value_column`) followed by the forecast periods, with the columns "forecast", "forecast_upper", and "forecast_lower". The prediction interval widens with the horizon. The result reports the chosen model, its holdout metrics (MAPE, RMSE, MAE) and a comparison of all models.',
         parameters: {
             type: Type.OBJECT,
             properties: {
@@ -113,25 +309,344 @@ const toolSchemas: FunctionDeclaration[] = [
                 frequency: {
                     type: Type.STRING,
                     description: 'The frequency of the time periods.',
-                    enum: ['daily', 'monthly', 'quarterly']
+                    enum: ['daily', 'weekly', 'monthly', 'quarterly']
+                },
+                model: {
+                    type: Type.STRING,
+                    description: 'The forecasting model. Defaults to "auto", which selects the model with the lowest holdout RMSE.',
+                    enum: ['auto', 'linear', 'naive_seasonal', 'holt_winters', 'arima']
                 },
+                seasonal_period: { type: Type.INTEGER, description: 'Number of periods in one season. Defaults to 7 for daily (weekly seasonality), 52 for weekly, 12 for monthly and 4 for quarterly data. Use e.g. 30 for a monthly cycle in daily data.' },
+                holdout_periods: { type: Type.INTEGER, description: 'Number of most recent periods withheld for backtesting. Defaults to forecast_periods, capped at 20% of the series.' },
+                confidence_level: { type: Type.NUMBER, description: 'Confidence level of the prediction interval. Defaults to 0.95.' },
             },
             required: ['dataset_name', 'date_column', 'value_column', 'forecast_periods', 'frequency'],
         },
     },
+    {
+        name: 'resample_time_series',
+        description: 'Bucket a date column into day, week (Monday start), month, quarter or year periods and aggregate one or more value columns per period, optionally by group columns. Use this instead of creating month keys with add_column, e.g. for "monthly net cash flow by currency". The output has the group columns, "period" (label such as "2024-03", "2024-Q1" or "FY2024-Q1" for fiscal quarters), "period_start", "period_end" and the aggregated value columns. Missing periods can be filled with zero or the previous value.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                dataset_name: { type: Type.STRING, description: 'Name of the dataset to resample.' },
+                date_column: { type: Type.STRING, description: 'The date column (YYYY-MM-DD) used for bucketing.' },
+                value_columns: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Numerical columns to aggregate.' },
+                frequency: { type: Type.STRING, enum: ['day', 'week', 'month', 'quarter', 'year'], description: 'The period size.' },
+                aggregation: { type: Type.STRING, enum: ['sum', 'mean', 'min', 'max', 'count', 'first', 'last'], description: 'Aggregation applied to every value column. Defaults to "sum".' },
+                group_by_columns: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Optional columns to group by in addition to the period, e.g. ["currency"].' },
+                fiscal_year_start_month: { type: Type.INTEGER, description: 'First month of the fiscal year (1-12), used for quarter and year periods. Defaults to 1. Fiscal years are labelled by the year they start in, e.g. with 4, April 2024 to March 2025 is "FY2024".' },
+                fill_method: { type: Type.STRING, enum: ['none', 'zero', 'ffill'], description: 'How to fill periods without data between the first and last period: "none" (omit, default), "zero", or "ffill" (previous value of the same group).' },
+            },
+            required: ['dataset_name', 'date_column', 'value_columns', 'frequency'],
+        },
+    },
+    {
+        name: 'backtest_forecast',
+        description: 'Evaluate how trustworthy forecasts of a time series are with rolling-origin backtesting. For each fold, the models are fitted on the data up to the origin and their forecasts are compared with the actual values of the following periods. Returns an actual-vs-forecast dataset (one row per period of `frequency` with the date column, "actual", "fold" and one "forecast_<model>" column per model; values are summed per period as in forecast_time_series) ready for render_line_chart. Per-fold MAPE/RMSE/MAE are saved as a separate dataset (fold_errors_dataset_name). The mean accuracy of each model is appended to an accuracy history kept for the whole analysis session (accuracy_history_dataset_name), so later runs can be compared with earlier ones.',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                dataset_name: { type: Type.STRING, description: 'Name of the dataset containing the time series data.' },
+                date_column: { type: Type.STRING, description: 'The column containing date or datetime information.' },
+                value_column: { type: Type.STRING, description: 'The numerical column to forecast.' },
+                forecast_periods: { type: Type.INTEGER, description: 'The forecast horizon evaluated in each fold.' },
+                frequency: {
+                    type: Type.STRING,
+                    description: 'The frequency of the time periods.',
+                    enum: ['daily', 'weekly', 'monthly', 'quarterly']
+                },
+                folds: { type: Type.INTEGER, description: 'Number of rolling-origin folds. Defaults to 5.' },
+                step_periods: { type: Type.INTEGER, description: 'Number of periods between consecutive origins. Defaults to forecast_periods (non-overlapping test windows).' },
+                models: {
+                    type: Type.ARRAY,
+                    items: { type: Type.STRING, enum: ['linear', 'naive_seasonal', 'holt_winters', 'arima'] },
+                    description: 'Models to evaluate. Defaults to all models.'
+                },
+                seasonal_period: { type: Type.INTEGER, description: 'Number of periods in one season. Defaults to 7 for daily, 52 for weekly, 12 for monthly and 4 for quarterly data.' },
+            },
+            required: ['dataset_name', 'date_column', 'value_column', 'forecast_periods', 'frequency'],
+        },
+    },
+    {
+        name: 'forecast_cash_position',
+        description: '`account_balances`の最新残高を起点に、会社(`company_code`)・通貨(`currency`)別の将来の資金残高を日次または週次で予測します。`trade_items`の期日(`due_date`)に売掛金の回収（プラス）と買掛金の支払（マイナス）を、`loans`の満期日(`maturity_date`)に元本返済を、開始日から所定の間隔で利払いを計上します。残高基準日（`account_balances`の評価日）時点で決済済みの債権・債務は残高に反映済みとして除外し（決済の判定は`settlement_rule`を参照）、未決済で起点日以前が期日のものは予測初日に計上します。件数は`overdue_trade_items`に報告されます。出力は期間ごと・会社・通貨ごとに1行（`date`, `company_code`, `currency`, `opening_balance`, `inflows`, `outflows`, `net_flow`, `closing_balance`, `balance_status`）で、残高がマイナスになる期間は`balance_status`が"NEGATIVE"になり、`negative_balance_alerts`に一覧されます。`render_line_chart`で可視化する場合は、`company_code`と`currency`を指定して単一の系列にするか、`x_column`に`date`、`y_columns`に`closing_balance`を指定してください。',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                horizon_days: { type: Type.INTEGER, description: '予測期間（日数）。デフォルトは90。' },
+                frequency: { type: Type.STRING, enum: ['daily', 'weekly'], description: '予測の粒度。デフォルトは"daily"。' },
+                as_of_date: { type: Type.STRING, description: '予測の起点日 (YYYY-MM-DD)。省略時は`account_balances`の最新評価日。' },
+                company_code: { type: Type.STRING, description: '対象を特定の会社に絞り込む場合の会社コード (例: "JP01")。' },
+                currency: { type: Type.STRING, description: '対象を特定の通貨に絞り込む場合の通貨コード (例: "USD")。' },
+                interest_payment_frequency: { type: Type.STRING, enum: ['monthly', 'quarterly', 'semiannual', 'annual'], description: '借入金の利払い頻度。デフォルトは"quarterly"。' },
+                settlement_rule: { type: Type.STRING, enum: ['due_date', 'none'], description: '`trade_items`に決済日（`settlement_date`など）やステータス（`status`）の列がない場合の決済の判定方法。"due_date"（デフォルト）は期日に決済されたものとみなし、"none"は期日超過分も含めて発行済みの全件を未決済として扱い、予測初日に計上します。' },
+            },
+        },
+    },
+    {
+        name: 'generate_loan_schedule',
+        description: '`loans`の各契約について、期間ごとの返済・利息スケジュールを作成します。元本(`principal_amount`)、金利(`interest_rate`、%)、開始日(`start_date`)、満期日(`maturity_date`)から、支払日ごとの期首残高(`opening_balance`)、経過利息(`interest`)、元本返済額(`principal_payment`)、支払総額(`total_payment`)、期末残高(`closing_balance`)を算出します。`payment_year`列で年別に集計すれば、返済期日の分布（マチュリティ・ラダー）や翌年の支払利息予算が得られます。変動金利の契約は現在の金利が継続すると仮定します。',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                amortization_type: { type: Type.STRING, enum: ['bullet', 'straight_line', 'annuity'], description: '返済方式。"bullet": 満期一括返済、"straight_line": 元金均等返済、"annuity": 元利均等返済。デフォルトは"bullet"。' },
+                day_count: { type: Type.STRING, enum: ['ACT/360', 'ACT/365', '30/360'], description: '利息計算の日数計算方法。デフォルトは"ACT/365"。' },
+                payment_frequency: { type: Type.STRING, enum: ['monthly', 'quarterly', 'semiannual', 'annual'], description: '支払頻度。デフォルトは"quarterly"。' },
+                contract_ids: { type: Type.ARRAY, items: { type: Type.STRING }, description: '対象とする契約IDのリスト (例: ["L-001"])。省略時は全契約。' },
+                from_date: { type: Type.STRING, description: 'この日付以降の支払日の行のみを出力します (YYYY-MM-DD)。' },
+                to_date: { type: Type.STRING, description: 'この日付以前の支払日の行のみを出力します (YYYY-MM-DD)。' },
+            },
+        },
+    },
+    {
+        name: 'calculate_interest_rate_scenario',
+        description: '金利上昇・低下シナリオ（例: 「金利が100bp上昇したら」）による年間支払利息の増減を算出します。`loans`のうち`interest_rate_type`が"Floating"の契約のみに金利シフトを適用し（固定金利契約は変化しません）、会社(`company_code`)・金融機関(`lender`)・通貨(`currency`)別に基準ケースの年間利息(`base_annual_interest`)、シナリオの年間利息(`scenario_annual_interest`)、増減額(`interest_delta`)と報告通貨建ての増減額(`interest_delta_reporting`)を返します。通貨別の増減額は`currency_summary_dataset_name`のデータセットに保存され、`render_waterfall_chart`（`category_column`="currency", `value_column`="interest_delta_reporting"）で通貨別の影響を説明できます。',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                parallel_shift_bp: { type: Type.NUMBER, description: '全通貨に適用する平行シフト幅（ベーシスポイント、例: 100 = +1.00%）。' },
+                currency_shifts: {
+                    type: Type.ARRAY,
+                    description: '通貨別のシフト幅。指定した通貨では平行シフトの代わりにこの値が使われます。',
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            currency: { type: Type.STRING, description: '通貨コード (例: "EUR")。' },
+                            shift_bp: { type: Type.NUMBER, description: 'シフト幅（ベーシスポイント）。' },
+                        },
+                        required: ['currency', 'shift_bp'],
+                    },
+                },
+                reporting_currency: { type: Type.STRING, description: '影響額を換算する報告通貨。デフォルトは"USD"。' },
+                as_of_date: { type: Type.STRING, description: '借入残高と換算レートの基準日 (YYYY-MM-DD)。省略時は`fx_rates`の最新日付。' },
+                floor_at_zero: { type: Type.BOOLEAN, description: 'シナリオ金利が0%を下回らないようにするか。デフォルトはtrue。' },
+            },
+        },
+    },
+    {
+        name: 'analyze_debt_maturity',
+        description: '借入金の満期構成（マチュリティ・ラダー）とリファイナンスリスクを分析します。`loans`の未返済元本を`fx_rates`で報告通貨に換算し、満期年または四半期ごとに集計したデータセット（`maturity_bucket`, `principal_reporting`, `share_pct`, `contract_count`）を返します。会社別・金融機関別の加重平均残存期間(`weighted_avg_maturity_years`)と加重平均調達金利(`weighted_avg_cost_pct`)は`kpi_dataset_name`のデータセット（`group_type`が"company"/"lender"/"total"）に保存されます。単一の金融機関または単一の満期期間が閾値を超えるシェアを持つ場合は`concentration_flags`に列挙されます。',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                bucket: { type: Type.STRING, enum: ['year', 'quarter'], description: '満期の集計単位。デフォルトは"year"。' },
+                reporting_currency: { type: Type.STRING, description: '換算先の報告通貨。デフォルトは"USD"。' },
+                as_of_date: { type: Type.STRING, description: '基準日 (YYYY-MM-DD)。省略時は`fx_rates`の最新日付。' },
+                concentration_threshold_pct: { type: Type.NUMBER, description: '集中リスクとして警告するシェアの閾値（%）。デフォルトは25。' },
+            },
+        },
+    },
+    {
+        name: 'analyze_trade_aging',
+        description: '`trade_items`の売掛金(AR)・買掛金(AP)のエイジング分析を行います。基準日時点で未決済の債権・債務（決済の判定は`settlement_rule`を参照）を期日(`due_date`)経過日数で、"current"（期日未到来）, "days_1_30", "days_31_60", "days_61_90", "days_over_90" の区分に分け、指定した列でグループ化して報告通貨建てで集計します（`render_table`向けの横持ち形式、`total`, `overdue_total`, `overdue_pct`, `weighted_avg_days_overdue`列を含む）。区分別のAR/AP合計（`aging_bucket`, `ar_amount`, `ap_amount`）は`bucket_summary_dataset_name`に保存され、`render_bar_chart`でそのまま可視化できます。会社別のDSO/DPO（`dso_days`, `dpo_days`）は、`transactions`の直近の入金(AR_RECEIPT)・支払(AP_PAYMENT)実績から算出され、`dso_dpo_dataset_name`に保存されます。',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                as_of_date: { type: Type.STRING, description: '基準日 (YYYY-MM-DD)。省略時は`account_balances`の最新評価日。' },
+                group_by_columns: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'グループ化する列。"company_code", "counterparty", "currency", "item_type" から選択します。デフォルトは["company_code", "item_type", "currency"]。' },
+                reporting_currency: { type: Type.STRING, description: '金額を換算する報告通貨。デフォルトは"USD"。' },
+                lookback_days: { type: Type.INTEGER, description: 'DSO/DPOの算出に使用する入出金実績の期間（日数）。デフォルトは90。' },
+                settlement_rule: { type: Type.STRING, enum: ['due_date', 'none'], description: '`trade_items`に決済日（`settlement_date`など）やステータス（`status`）の列がない場合の決済の判定方法。"due_date"（デフォルト）は期日に決済されたものとみなすため期日経過の区分は空になります。"none"は発行済みの全件を未決済として区分します（決済済みのものも延滞に含まれます）。' },
+            },
+        },
+    },
+    {
+        name: 'compute_fx_exposure',
+        description: '会社コード(`company_code`)と通貨(`currency`)ごとのネット為替エクスポージャーを1回の呼び出しで算出します。`account_balances`の最新残高（`cash`）、`trade_items`のうち基準日時点で未決済（発行日が基準日以前で、決済の判定は`settlement_rule`を参照）の売掛金（`receivables`、プラス）と買掛金（`payables`、マイナス）、`loans`の未返済元本（`debt`、マイナス）をネットした`net_exposure`を計算し、`fx_rates`のUSD基準クロスレート（`fx_rate`: 通貨1単位あたりの報告通貨額）で報告通貨に換算した`net_exposure_reporting`列を追加します。負債の符号は既に反転済みです。レートがない通貨の行は削除されず、換算額がnullになり`missing_rate_currencies`に列挙されます。',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                reporting_currency: { type: Type.STRING, description: '換算先の報告通貨 (例: "JPY")。デフォルトは"USD"。' },
+                as_of_date: { type: Type.STRING, description: 'エクスポージャーの基準日 (YYYY-MM-DD)。省略時は`account_balances`の最新評価日。' },
+                rate_date: { type: Type.STRING, description: '換算に使用するレートの日付 (YYYY-MM-DD)。その日以前で最新のレートを使用します。省略時は基準日。' },
+                settlement_rule: { type: Type.STRING, enum: ['due_date', 'none'], description: '`trade_items`に決済日（`settlement_date`など）やステータス（`status`）の列がない場合の決済の判定方法。"due_date"（デフォルト）は期日に決済されたものとみなし、"none"は期日超過分も含めて発行済みの全件を未決済として扱います。' },
+            },
+        },
+    },
+    {
+        name: 'analyze_concentration_risk',
+        description: '銀行・取引先の集中リスクを分析し、社内規程の限度額と比較します。銀行別の預金残高（`account_balances`、`bank`列がない場合は`bank_mapping`で口座または会社と銀行を対応付け。対応付けがない口座は口座IDの接頭辞（例: ACCT-JP-001→ACCT-JP）ごとに集計し、警告を返します）、金融機関別の借入残高（`loans`の`lender`）、取引先別の未決済の売掛金（`trade_items`の`counterparty`、決済の判定は`settlement_rule`を参照）を報告通貨に換算し、1行1先（`exposure_type`, `name`, `exposure_reporting`, `share_pct`, `limit_reporting`, `utilization_pct`, `status`）のデータセットを返します。`status`が"BREACH"の行が限度額超過です。種別ごとのハーフィンダール指数（HHI, 0〜10,000）は`concentration_index_dataset_name`に保存されます。結果の`markdown_table`（超過一覧とHHI）はそのまま`generate_report`の`summary`に埋め込めます。',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                limits: {
+                    type: Type.ARRAY,
+                    description: '限度額のリスト。`name`を省略するか"*"にすると、その種別のすべての先に適用される既定の限度額になります。',
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            exposure_type: { type: Type.STRING, enum: ['bank', 'lender', 'counterparty'], description: 'エクスポージャーの種別。' },
+                            name: { type: Type.STRING, description: '銀行名・金融機関名・取引先名。' },
+                            limit: { type: Type.NUMBER, description: '報告通貨建ての限度額。' },
+                        },
+                        required: ['exposure_type', 'limit'],
+                    },
+                },
+                reporting_currency: { type: Type.STRING, description: '換算先の報告通貨。デフォルトは"USD"。' },
+                as_of_date: { type: Type.STRING, description: '基準日 (YYYY-MM-DD)。省略時は`account_balances`の最新評価日。' },
+                bank_mapping: {
+                    type: Type.ARRAY,
+                    description: '口座または会社と銀行名の対応。`account_id`は完全一致、または"ACCT-JP-*"のように末尾に"*"を付けた前方一致で指定します。`company_code`を指定すると、その会社の口座すべてに適用されます（`account_id`の指定が優先）。',
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            account_id: { type: Type.STRING, description: '口座ID、または"*"で終わる口座IDの前方一致パターン。' },
+                            company_code: { type: Type.STRING, description: '会社コード。その会社の口座すべてを指定した銀行に対応付けます。' },
+                            bank: { type: Type.STRING, description: '銀行名。' },
+                        },
+                        required: ['bank'],
+                    },
+                },
+                settlement_rule: { type: Type.STRING, enum: ['due_date', 'none'], description: '`trade_items`に決済日（`settlement_date`など）やステータス（`status`）の列がない場合の決済の判定方法。"due_date"（デフォルト）は期日に決済されたものとみなし、"none"は期日超過分も含めて発行済みの全件を未決済として扱います。' },
+            },
+        },
+    },
+    {
+        name: 'propose_intercompany_netting',
+        description: '月次ネッティングサイクル向けに、会社間（`company_code`間）の社内取引をマルチラテラル・ネッティングした決済案を作成します。`transactions`の`INTERCOMPANY`取引（または指定したデータセット）を`fx_rates`でネッティング通貨に換算し、各社のネットポジションを最少件数の決済（`payer_company_code`, `receiver_company_code`, `amount`, `amount_payer_currency`）に集約したデータセットを返します。金額が負の行は当該会社から相手先への支払、正の行は相手先からの受取として扱います。相手先の会社コードは`counterparty_company_code`/`counterparty`列（または`counterparty_column`で指定した列）から取得します。これらの列がない場合は摘要（`description`）に含まれる会社コードを相手先とし、それも特定できない取引はネッティングセンター（`netting_center_company_code`）との取引として扱います。グロス→バイラテラル→マルチラテラルの削減額は`netting_summary_dataset_name`に保存され、`render_waterfall_chart`（category_column: "step", value_column: "amount"）で可視化できます。',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                netting_currency: { type: Type.STRING, description: 'ネッティング通貨。デフォルトは"USD"。' },
+                period: { type: Type.STRING, description: '対象のネッティング期間 (YYYY-MM)。省略時はデータ内の最新月、空文字の場合は全期間。換算にはその月末時点（全期間の場合は最新）のレートを使用します。' },
+                dataset_name: { type: Type.STRING, description: '社内取引を含むデータセット名。デフォルトは"transactions"。`category`列がある場合は"INTERCOMPANY"の行のみ使用します。' },
+                counterparty_column: { type: Type.STRING, description: '相手先の会社コードを含む列名。省略時は`counterparty_company_code`または`counterparty`列を使用します。' },
+                netting_center_company_code: { type: Type.STRING, description: '相手先の会社コード列がない場合に、相手先が特定できない取引の精算先とするネッティングセンターのcompany_code。省略時は最新の残高スナップショットで現預金が最も多い会社。' },
+            },
+        },
+    },
+    {
+        name: 'simulate_cash_pool',
+        description: 'ゼロバランシング（キャッシュプーリング）をシミュレーションします。`account_balances`の最新残高と`transactions`から日次残高を再構成し、各参加口座の目標残高を超える部分をヘッダー口座へ吸い上げ、不足分をヘッダー口座から補填します。物理的なゼロバランシングは単一通貨のため、デフォルトではプール通貨建ての口座のみが参加し、他通貨の口座は`excluded_accounts`に報告されます（`include_other_currencies`がtrueの場合は、その日の`fx_rates`でプール通貨に換算して吸い上げるマルチカレンシー・プールとして扱います）。日次・口座別のスイープ結果（`balance_before_sweep`, `sweep_amount`, `sweep_amount_pool`, `balance_after_sweep`）をメインのデータセットとして返し、会社別の社内貸借ポジション（プラスはヘッダー会社への貸付、マイナスは借入）を`intercompany_dataset_name`に保存します。預金金利・借入金利を指定すると、単独運用と比べたプールの想定金利メリットを`interest`に返します。',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                header_company_code: { type: Type.STRING, description: 'プールのヘッダー会社のcompany_code（例: "DE01"）。' },
+                pool_currency: { type: Type.STRING, description: 'プール通貨（例: "EUR"）。' },
+                header_account_id: { type: Type.STRING, description: 'ヘッダー口座のaccount_id。省略時はヘッダー会社のプール通貨建て口座のうち残高が最大のもの。' },
+                participant_company_codes: { type: Type.ARRAY, items: { type: Type.STRING }, description: '参加会社のcompany_codeのリスト。省略時は全社。' },
+                target_balances: {
+                    type: Type.ARRAY,
+                    description: '口座別の目標残高（口座通貨建て）。`account_id`は完全一致、または末尾に"*"を付けた前方一致で指定します。',
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            account_id: { type: Type.STRING, description: '口座ID、または"*"で終わる口座IDの前方一致パターン。' },
+                            target_balance: { type: Type.NUMBER, description: 'スイープ後に口座に残す残高。' },
+                        },
+                        required: ['account_id', 'target_balance'],
+                    },
+                },
+                default_target_balance: { type: Type.NUMBER, description: '`target_balances`で指定されていない口座の目標残高。デフォルトは0（ゼロバランシング）。' },
+                from_date: { type: Type.STRING, description: 'シミュレーション開始日 (YYYY-MM-DD)。省略時は終了日の89日前。' },
+                to_date: { type: Type.STRING, description: 'シミュレーション終了日 (YYYY-MM-DD)。省略時は`account_balances`の最新評価日。' },
+                deposit_rate_pct: { type: Type.NUMBER, description: 'プラス残高に適用する年率預金金利（%）。デフォルトは0。' },
+                borrowing_rate_pct: { type: Type.NUMBER, description: 'マイナス残高に適用する年率借入金利（%）。デフォルトは0。' },
+                day_count: { type: Type.STRING, enum: ['ACT/360', 'ACT/365', '30/360'], description: '利息計算の日数計算方式。デフォルトは"ACT/365"。' },
+                include_other_currencies: { type: Type.BOOLEAN, description: 'trueの場合、プール通貨以外の口座も日次のスポットレートで換算して参加させます（マルチカレンシー・プール）。デフォルトはfalse（プール通貨建ての口座のみ）。' },
+            },
+            required: ['header_company_code', 'pool_currency'],
+        },
+    },
+    {
+        name: 'detect_transaction_anomalies',
+        description: '取引データの異常を検知します。口座×カテゴリごとに過去の取引からベースライン（移動平均、中央値、中央値絶対偏差(MAD)）を作り、月初・月中・月末の時期が同じ取引が十分あればそれを優先して季節性を考慮します。金額の外れ値（ロバストzスコアが閾値超）と一定日数内の重複（同じ口座・金額・摘要）を検知し、該当した行を乖離の大きい順に`anomaly_types`（AMOUNT_OUTLIER, DUPLICATE, WEEKEND, HOLIDAYのセミコロン区切り）と`reason`（理由の説明文）列付きで返します。種別ごとの件数（`anomaly_counts`）と会社別の件数（`counts_by_company`）も返すので、まず件数で全体像を把握してください。休日（`holidays`）や週末（`flag_weekends`）にのみ該当する取引は`calendar_flags_dataset_name`に分けて保存されます。レポートでは`reason`列をそのまま要約に使えます。',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                dataset_name: { type: Type.STRING, description: '対象のデータセット名。デフォルトは"transactions"。`transaction_date`, `account_id`, `amount`列が必要です。' },
+                z_threshold: { type: Type.NUMBER, description: '外れ値と判定するロバストzスコアの閾値。デフォルトは3.5。' },
+                rolling_window_days: { type: Type.NUMBER, description: 'ベースラインに使う過去の日数。デフォルトは180。' },
+                min_history: { type: Type.NUMBER, description: 'ベースラインの計算に必要な最小取引件数。これ未満の取引は金額判定を行いません。デフォルトは5。' },
+                duplicate_window_days: { type: Type.NUMBER, description: '重複とみなす日数の幅。デフォルトは3。' },
+                holidays: {
+                    type: Type.ARRAY,
+                    description: '休日のリスト。`country_code`を省略すると全口座に適用されます。',
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            date: { type: Type.STRING, description: '休日 (YYYY-MM-DD)。' },
+                            country_code: { type: Type.STRING, description: '対象国コード（例: "JP"）。' },
+                        },
+                        required: ['date'],
+                    },
+                },
+                flag_weekends: { type: Type.BOOLEAN, description: '週末の取引をフラグ付けするかどうか。デフォルトはfalse。' },
+            },
+        },
+    },
+    {
+        name: 'reconcile_bank_balances',
+        description: '銀行残高の照合（バンクレコンシリエーション）を行います。`account_id`ごとに、前回の`evaluation_date`の残高に次回評価日までの`transactions`（前回評価日の翌日〜次回評価日）を加算した理論残高を計算し、`account_balances`の次回スナップショットと比較します。期間ごとの照合結果（`opening_balance`, `transaction_total`, `expected_closing_balance`, `actual_closing_balance`, `difference`, `status`: RECONCILED/UNEXPLAINED）をデータセットとして返し、差異のある期間について金額が差異に最も近い取引を`candidate_transactions_dataset_name`に保存します。スナップショットが1件しかない口座は照合できません。同梱の`account_balances`は評価日が1日分のみのため、照合には口座ごとに複数の評価日の残高を含むデータセットを`balances_dataset_name`に指定する必要があります。',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                tolerance: { type: Type.NUMBER, description: '一致とみなす差異の許容額（口座通貨建て）。デフォルトは0.01。' },
+                account_ids: { type: Type.ARRAY, items: { type: Type.STRING }, description: '照合対象のaccount_idのリスト。省略時は全口座。' },
+                nearest_count: { type: Type.NUMBER, description: '差異ごとに返す原因候補の取引件数。デフォルトは3。' },
+                search_window_days: { type: Type.NUMBER, description: '原因候補を探す際に期間の前後に広げる日数。デフォルトは5。' },
+                balances_dataset_name: { type: Type.STRING, description: '残高スナップショットを含むデータセット名。デフォルトは"account_balances"。`evaluation_date`, `account_id`, `balance`列が必要で、口座ごとに2つ以上の評価日が必要です（`account_balances`が1日分のみの場合は必須）。' },
+            },
+        },
+    },
     {
         name: 'calculate_correlated_forex_scenario',
-        description: '基準となる通貨ペアの仮想的な変動シナリオに基づき、関連性の高い他の通貨ペアの仮想レートを算出します。これはデモ用の簡易的な予測ツールです。',
+        description: '基準となる通貨ペアの仮想的な変動シナリオに基づき、関連性の高い他の通貨ペアの仮想レートを算出します。現在レートは`fx_rates`の最新日付のレート（USD経由のクロスレート）を使用し、関連通貨ペアの変動は指定期間の日次変化率から推定した相関係数とベータで算出します。結果は決定的で、同じ入力に対して常に同じ値を返します。',
         parameters: {
             type: Type.OBJECT,
             properties: {
                 base_currency_pair: { type: Type.STRING, description: '基準となる通貨ペア (例: "USD/JPY")' },
                 scenario_rate: { type: Type.NUMBER, description: '基準通貨ペアのシナリオ（仮想）レート (例: 160.0)' },
                 periods: { type: Type.INTEGER, description: '生成する仮想レートの期間（日数）。デフォルトは30。' },
+                correlated_currency_pair: { type: Type.STRING, description: '関連通貨ペア (例: "EUR/JPY")。省略した場合、基準通貨ペアと同じ建値通貨を持つペアのうち、過去の相関が最も高いものを自動で選択します。' },
+                lookback_days: { type: Type.INTEGER, description: '相関係数とベータを推定する過去の観測日数。デフォルトは90。' },
             },
             required: ['base_currency_pair', 'scenario_rate'],
         },
     },
+    {
+        name: 'calculate_multi_currency_scenario',
+        description: '複数通貨に対するショック（例: 「JPY +10%, EUR -5%, その他は過去の相関に従う」）から、`fx_rates`に含まれる全通貨のシナリオレート表を作成します。レートは「1基準通貨あたりの各通貨額」（例: 基準通貨USDならJPYは1USD=150JPY）で表され、USD経由のクロスレートで算出されます。ショック対象外の通貨は過去の日次変化率の相関（共分散）に基づく条件付き期待変化で動きます。出力は1通貨1行で、`currency`, `base_currency`, `rate_date`, `current_rate`, `scenario_rate`, `rate_change`, `rate_change_pct`, `shock_source` 列を持ち、`currency`列をキーに`account_balances`, `trade_items`, `loans`と`join_datasets`できます。',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                shocks: {
+                    type: Type.ARRAY,
+                    description: '通貨ごとのショックのリスト。',
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            currency: { type: Type.STRING, description: 'ショックを与える通貨コード (例: "JPY")。' },
+                            shock_type: { type: Type.STRING, enum: ['level', 'percent', 'stddev'], description: '"level": シナリオレートの絶対水準（1基準通貨あたりの額）、"percent": レートの変化率（%、正の値は1基準通貨あたりの額が増える＝その通貨安）、"stddev": 過去の変動率の標準偏差の倍数。' },
+                            value: { type: Type.NUMBER, description: 'ショックの値 (例: level=160, percent=10, stddev=-2)。' },
+                        },
+                        required: ['currency', 'shock_type', 'value'],
+                    },
+                },
+                base_currency: { type: Type.STRING, description: 'レートを表す基準通貨。デフォルトは"USD"。' },
+                lookback_days: { type: Type.INTEGER, description: '相関と標準偏差を推定する過去の観測日数。デフォルトは90。' },
+                horizon_days: { type: Type.INTEGER, description: '"stddev"ショックで使用する期間（日数）。日次標準偏差を√期間で拡大します。デフォルトは1。' },
+                as_of_date: { type: Type.STRING, description: '現在レートの基準日 (YYYY-MM-DD)。省略時は`fx_rates`の最新日付。' },
+            },
+            required: ['shocks'],
+        },
+    },
+    {
+        name: 'calculate_fx_var',
+        description: 'グループ全体の為替エクスポージャーのVaR（バリュー・アット・リスク）とES（期待ショートフォール）を算出します。`account_balances`の最新残高、`trade_items`のうち基準日時点で未決済のもの（ARはプラス、APはマイナス。決済の判定は`settlement_rule`を参照）、`loans`の元本（マイナス）から通貨別のネットエクスポージャーを作成し、`fx_rates`の日次履歴を用いてヒストリカル法とパラメトリック法（デルタ・ノーマル法）で計算します。結果のデータセットは手法・信頼水準・保有期間ごとに1行（`method`, `confidence_level`, `horizon_days`, `value_at_risk`, `expected_shortfall`）で、損失額はプラスの値で表されます。通貨別の寄与度（`parametric_component_var`, `historical_component_es`など）は`contribution_dataset_name`のデータセットに保存され、`render_bar_chart`や`render_waterfall_chart`で可視化できます。',
+        parameters: {
+            type: Type.OBJECT,
+            properties: {
+                confidence_levels: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: '信頼水準のリスト (例: [0.95, 0.99])。デフォルトは[0.95, 0.99]。最初の値が通貨別寄与度の計算に使われます。' },
+                horizon_days: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: '保有期間（日数）のリスト (例: [1, 10])。デフォルトは[1, 10]。最初の値が通貨別寄与度の計算に使われます。' },
+                reporting_currency: { type: Type.STRING, description: 'VaRを表示する報告通貨。デフォルトは"USD"。' },
+                lookback_days: { type: Type.INTEGER, description: 'ヒストリカルデータとして使用する過去の観測日数。デフォルトは250。' },
+                as_of_date: { type: Type.STRING, description: 'エクスポージャーと現在レートの基準日 (YYYY-MM-DD)。省略時は`account_balances`の最新評価日。' },
+                settlement_rule: { type: Type.STRING, enum: ['due_date', 'none'], description: '`trade_items`に決済日（`settlement_date`など）やステータス（`status`）の列がない場合の決済の判定方法。"due_date"（デフォルト）は期日に決済されたものとみなし、"none"は期日超過分も含めて発行済みの全件を未決済として扱います。' },
+            },
+        },
+    },
     {
         name: 'verify_visualization_data',
         description: 'Before generating a visualization, verify if the data is suitable (e.g., is it aggregated, does it have the right data types?). You MUST use this tool before calling any render_* tool.',
@@ -168,6 +683,8 @@ const toolSchemas: FunctionDeclaration[] = [
             properties: {
                 dataset_name: { type: Type.STRING, description: 'Name of the dataset to render.' },
                 title: { type: Type.STRING, description: 'The title of the table. It must be concise, descriptive, and ideally under 30 characters.' },
+                columns: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Optional. Columns to show, in this order. Defaults to all columns, which keeps the column order of a `pivot_dataset` result.' },
+                decimal_places: { type: Type.NUMBER, description: 'Optional. Formats numbers with thousands separators and this many decimal places (e.g., 0 for amounts) and right-aligns numeric columns.' },
             },
             required: ['dataset_name', 'title'],
         },
@@ -303,7 +820,7 @@ function translateErrorMessage(errorMessage: string): string {
     if (errorMessage.includes("Dataset") && errorMessage.includes("not found")) {
         return "分析に必要なデータが見つかりませんでした。データが正しく読み込まれているか確認してください。";
     }
-    if (errorMessage.includes("Column") && errorMessage.includes("does not exist")) {
+    if ((errorMessage.includes("Column") && errorMessage.includes("does not exist")) || errorMessage.includes("not found in dataset")) {
         return "データ内に指定された項目（列）が見つかりませんでした。別の項目名で試すか、データの内容を確認してください。";
     }
     if (errorMessage.includes("No numerical data found")) {
@@ -319,8 +836,11 @@ function translateErrorMessage(errorMessage: string): string {
     if (errorMessage.includes("Unsupported aggregation function")) {
         return "サポートされていない集計方法が指定されました。（例：合計、平均、件数など）";
     }
-    if (errorMessage.includes("requires at least two data points")) {
-        return "時系列予測を行うには、少なくとも2つ以上のデータポイントが必要です。";
+    if (errorMessage.includes("cannot be derived from the fx_rates dataset")) {
+        return "指定された通貨ペアの為替レートが見つかりませんでした。通貨コードを確認してください。";
+    }
+    if (errorMessage.includes("requires at least three data points")) {
+        return "時系列予測を行うには、少なくとも3つ以上のデータポイントが必要です。";
     }
 
     // Default fallback message
@@ -7,6 +7,8 @@ import DOMPurify from 'dompurify';
 import type { DataSets, DataSet, MessageContent, CsvRow, VisualContent, TableContent, BarChartContent, PieChartContent, LineChartContent, WorldMapContent, ScatterPlotContent, WaterfallChartContent, ReportContent } from '../types';
 import * as d3 from 'd3';
 import logger from './loggingService';
+import { compileExpression, ExpressionError, type CompiledExpression, type ExpressionValue } from './expressionEngine';
+import { FORECAST_MODELS, calculateErrorMetrics, evaluateOnHoldout, fitForecastModel, type ForecastModel } from './forecastingService';
 import TableComponent from '../components/charts/TableComponent';
 import BarChartComponent from '../components/charts/BarChartComponent';
 import PieChartComponent from '../components/charts/PieChartComponent';
@@ -38,9 +40,358 @@ const ArtifactRendererForImage: React.FC<{ content: VisualContent }> = ({ conten
     }
 };
 
-// Helper function to escape regex special characters
-function escapeRegExp(string: string): string {
-    return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'); // $& means the whole matched string
+// Helper function to format a date as YYYY-MM-DD (UTC)
+function formatDate(date: Date): string {
+    return date.toISOString().split('T')[0];
+}
+
+// Helper function to shift a YYYY-MM-DD date string by a number of days (UTC)
+function addDays(dateString: string, days: number): string {
+    const date = new Date(`${dateString}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return formatDate(date);
+}
+
+// Helper function to shift a YYYY-MM-DD date string by a number of months, clamping to the month end (UTC)
+function addMonths(dateString: string, months: number): string {
+    const date = new Date(`${dateString}T00:00:00Z`);
+    const day = date.getUTCDate();
+    date.setUTCDate(1);
+    date.setUTCMonth(date.getUTCMonth() + months);
+    const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+    date.setUTCDate(Math.min(day, lastDay));
+    return formatDate(date);
+}
+
+// Number of calendar days between two YYYY-MM-DD date strings
+function daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+// Default season length per series frequency: weekly cycle for daily data, yearly cycle otherwise
+const DEFAULT_SEASONAL_PERIODS: Record<string, number> = { daily: 7, weekly: 52, monthly: 12, quarterly: 4 };
+
+// Helper function to step a YYYY-MM-DD date string by a number of periods of the given series frequency
+function stepPeriodDate(dateString: string, frequency: string, periods: number): string {
+    switch (frequency) {
+        case 'daily': return addDays(dateString, periods);
+        case 'weekly': return addDays(dateString, 7 * periods);
+        case 'monthly': return addMonths(dateString, periods);
+        case 'quarterly': return addMonths(dateString, 3 * periods);
+        default: throw new Error(`Unsupported frequency: ${frequency}. Use daily, weekly, monthly or quarterly.`);
+    }
+}
+
+// Helper function to map a YYYY-MM-DD date string to the start of its period (weeks start on Monday)
+function periodStartDate(dateString: string, frequency: string): string {
+    switch (frequency) {
+        case 'daily': return dateString;
+        case 'weekly': return addDays(dateString, -((new Date(`${dateString}T00:00:00Z`).getUTCDay() + 6) % 7));
+        case 'monthly': return `${dateString.slice(0, 7)}-01`;
+        case 'quarterly': return addMonths(`${dateString.slice(0, 7)}-01`, -((Number(dateString.slice(5, 7)) - 1) % 3));
+        default: throw new Error(`Unsupported frequency: ${frequency}. Use daily, weekly, monthly or quarterly.`);
+    }
+}
+
+// Sums a dated series into consecutive periods of the given frequency, filling periods without data with 0,
+// so that models which assume evenly spaced observations see the calendar as it is
+function regularizeSeries(series: [string, number][], frequency: string): { series: [string, number][]; filledPeriods: number } {
+    const totals = d3.rollup(series, v => d3.sum(v, ([, value]) => value), ([date]) => periodStartDate(date, frequency));
+    const starts = [...totals.keys()].sort();
+    const regular: [string, number][] = [];
+    let filledPeriods = 0;
+    for (let start = starts[0]; start && start <= starts[starts.length - 1]; start = stepPeriodDate(start, frequency, 1)) {
+        if (!totals.has(start)) filledPeriods++;
+        regular.push([start, totals.get(start) ?? 0]);
+    }
+    return { series: regular, filledPeriods };
+}
+
+// Year fraction between two YYYY-MM-DD dates under a day-count convention
+function dayCountFraction(from: string, to: string, convention: string): number {
+    switch (convention) {
+        case 'ACT/360':
+            return daysBetween(from, to) / 360;
+        case 'ACT/365':
+            return daysBetween(from, to) / 365;
+        case '30/360': {
+            const [y1, m1, d1] = from.split('-').map(Number);
+            const [y2, m2, d2] = to.split('-').map(Number);
+            const day1 = Math.min(d1, 30);
+            const day2 = d2 === 31 && day1 === 30 ? 30 : d2;
+            return (360 * (y2 - y1) + 30 * (m2 - m1) + (day2 - day1)) / 360;
+        }
+        default:
+            throw new Error(`Unsupported day count convention: ${convention}. Available conventions: ACT/360, ACT/365, 30/360.`);
+    }
+}
+
+// Pearson correlation of two equally long series, and the OLS beta of y on x
+function correlationAndBeta(x: number[], y: number[]): { correlation: number; beta: number } {
+    const meanX = d3.mean(x) ?? 0;
+    const meanY = d3.mean(y) ?? 0;
+    let covariance = 0, varianceX = 0, varianceY = 0;
+    for (let i = 0; i < x.length; i++) {
+        covariance += (x[i] - meanX) * (y[i] - meanY);
+        varianceX += (x[i] - meanX) ** 2;
+        varianceY += (y[i] - meanY) ** 2;
+    }
+    return {
+        correlation: varianceX > 0 && varianceY > 0 ? covariance / Math.sqrt(varianceX * varianceY) : 0,
+        beta: varianceX > 0 ? covariance / varianceX : 0,
+    };
+}
+
+// Sample covariance of two equally long series
+function covariance(x: number[], y: number[]): number {
+    if (x.length < 2) return 0;
+    const meanX = d3.mean(x) ?? 0;
+    const meanY = d3.mean(y) ?? 0;
+    let sum = 0;
+    for (let i = 0; i < x.length; i++) {
+        sum += (x[i] - meanX) * (y[i] - meanY);
+    }
+    return sum / (x.length - 1);
+}
+
+// Solves A·x = b with Gaussian elimination and partial pivoting. Returns null for a singular matrix.
+function solveLinearSystem(matrix: number[][], vector: number[]): number[] | null {
+    const n = vector.length;
+    const a = matrix.map((row, i) => [...row, vector[i]]);
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+        }
+        if (Math.abs(a[pivot][col]) < 1e-14) return null;
+        [a[col], a[pivot]] = [a[pivot], a[col]];
+        for (let row = col + 1; row < n; row++) {
+            const factor = a[row][col] / a[col][col];
+            for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+        }
+    }
+    const x = new Array(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+        let sum = a[row][n];
+        for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+        x[row] = sum / a[row][row];
+    }
+    return x;
+}
+
+// Inverse of the standard normal CDF (Acklam's rational approximation, relative error < 1.2e-9)
+function normalQuantile(p: number): number {
+    const a = [-3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02, 1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
+    const b = [-5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02, 6.680131188771972e+01, -1.328068155288572e+01];
+    const c = [-7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00, -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
+    const d = [7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00, 3.754408661907416e+00];
+    const pLow = 0.02425;
+    if (p <= 0 || p >= 1) throw new Error(`Probability must be between 0 and 1, but got ${p}.`);
+    if (p < pLow) {
+        const q = Math.sqrt(-2 * Math.log(p));
+        return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    }
+    if (p > 1 - pLow) {
+        return -normalQuantile(1 - p);
+    }
+    const q = p - 0.5;
+    const r = q * q;
+    return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+// Standard normal probability density
+function normalPdf(x: number): number {
+    return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+}
+
+interface FilterCondition {
+    column: string;
+    operator: string;
+    value?: any;
+    values?: any[];
+}
+
+interface FilterGroup {
+    logic?: 'AND' | 'OR';
+    negate?: boolean;
+    conditions?: FilterCondition[];
+    groups?: FilterGroup[];
+}
+
+// Parses "YYYY-MM-DD", "YYYY/M/D" and ISO date-times into epoch milliseconds, or null for anything else
+function parseDateValue(value: unknown): number | null {
+    const match = /^(\d{4})[-\/](\d{1,2})[-\/](\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?/.exec(String(value ?? '').trim());
+    if (!match) return null;
+    const [, y, m, d, hh, mm, ss] = match;
+    const time = Date.UTC(Number(y), Number(m) - 1, Number(d), Number(hh ?? 0), Number(mm ?? 0), Number(ss ?? 0));
+    return isNaN(time) ? null : time;
+}
+
+// Compares as dates when both sides are dates, as numbers when both are numeric, and as strings otherwise
+function compareFilterValues(left: unknown, right: unknown): number {
+    const leftDate = parseDateValue(left);
+    const rightDate = parseDateValue(right);
+    if (leftDate !== null && rightDate !== null) return leftDate - rightDate;
+    const isNumeric = (v: unknown) => v !== '' && v !== null && typeof v !== 'boolean' && !isNaN(Number(v));
+    if (isNumeric(left) && isNumeric(right)) return Number(left) - Number(right);
+    return String(left).localeCompare(String(right));
+}
+
+function evaluateFilterCondition(row: CsvRow, condition: FilterCondition): boolean {
+    const rowVal = row[condition.column];
+    const isNull = rowVal === undefined || rowVal === null || rowVal === '';
+    const operator = String(condition.operator).toLowerCase().replace(/\s+/g, '_');
+    if (operator === 'is_null') return isNull;
+    if (operator === 'is_not_null') return !isNull;
+    if (isNull) return false;
+
+    const listValues = Array.isArray(condition.values) ? condition.values : Array.isArray(condition.value) ? condition.value : [condition.value];
+    switch (operator) {
+        case '==': return compareFilterValues(rowVal, condition.value) === 0;
+        case '!=': return compareFilterValues(rowVal, condition.value) !== 0;
+        case '>': return compareFilterValues(rowVal, condition.value) > 0;
+        case '<': return compareFilterValues(rowVal, condition.value) < 0;
+        case '>=': return compareFilterValues(rowVal, condition.value) >= 0;
+        case '<=': return compareFilterValues(rowVal, condition.value) <= 0;
+        case 'contains': return String(rowVal).toLowerCase().includes(String(condition.value).toLowerCase());
+        case 'in': return listValues.some(v => compareFilterValues(rowVal, v) === 0);
+        case 'not_in': return !listValues.some(v => compareFilterValues(rowVal, v) === 0);
+        case 'between': {
+            if (listValues.length !== 2) {
+                throw new Error(`Operator "between" on column "${condition.column}" requires exactly two values [min, max].`);
+            }
+            return compareFilterValues(rowVal, listValues[0]) >= 0 && compareFilterValues(rowVal, listValues[1]) <= 0;
+        }
+        case 'regex': {
+            try {
+                return new RegExp(String(condition.value), 'i').test(String(rowVal));
+            } catch (e) {
+                throw new Error(`Invalid regular expression for column "${condition.column}": ${condition.value}`);
+            }
+        }
+        default:
+            throw new Error(`Unsupported filter operator: ${condition.operator}. Available operators: ==, !=, >, <, >=, <=, contains, in, not_in, between, is_null, is_not_null, regex.`);
+    }
+}
+
+function evaluateFilterGroup(row: CsvRow, group: FilterGroup): boolean {
+    const results = [
+        ...(group.conditions ?? []).map(condition => () => evaluateFilterCondition(row, condition)),
+        ...(group.groups ?? []).map(child => () => evaluateFilterGroup(row, child)),
+    ];
+    const matched = String(group.logic ?? 'AND').toUpperCase() === 'OR' ? results.some(r => r()) : results.every(r => r());
+    return group.negate ? !matched : matched;
+}
+
+function describeFilterGroup(group: FilterGroup): string {
+    const parts = [
+        ...(group.conditions ?? []).map(c => {
+            const operand = c.values ?? c.value;
+            return `${c.column} ${c.operator}${operand !== undefined ? ` ${JSON.stringify(operand)}` : ''}`;
+        }),
+        ...(group.groups ?? []).map(child => `(${describeFilterGroup(child)})`),
+    ];
+    const text = parts.join(` ${String(group.logic ?? 'AND').toUpperCase()} `);
+    return group.negate ? `NOT (${text})` : text;
+}
+
+interface AggregationSpec {
+    column?: string;
+    function: string;
+    alias?: string;
+    percentile?: number;
+    weight_column?: string;
+}
+
+const isPresent = (value: CsvRow[string] | undefined) => value !== null && value !== undefined && value !== '';
+const presentValues = (group: CsvRow[], column: string) => group.map(r => r[column]).filter(isPresent);
+const numericValues = (group: CsvRow[], column: string) => presentValues(group, column).map(Number).filter(v => !isNaN(v));
+
+// Aggregation functions shared by aggregate_data and pivot_dataset
+const AGGREGATORS: Record<string, (group: CsvRow[], spec: AggregationSpec) => string | number | null> = {
+    sum: (group, spec) => d3.sum(numericValues(group, spec.column!)),
+    count: group => group.length,
+    average: (group, spec) => d3.mean(numericValues(group, spec.column!)) || 0,
+    max: (group, spec) => d3.max(presentValues(group, spec.column!) as any) ?? null,
+    min: (group, spec) => d3.min(presentValues(group, spec.column!) as any) ?? null,
+    median: (group, spec) => d3.median(numericValues(group, spec.column!)) ?? null,
+    stddev: (group, spec) => d3.deviation(numericValues(group, spec.column!)) ?? null,
+    percentile: (group, spec) => d3.quantile(numericValues(group, spec.column!).sort(d3.ascending), spec.percentile! / 100) ?? null,
+    count_distinct: (group, spec) => new Set(presentValues(group, spec.column!)).size,
+    first: (group, spec) => presentValues(group, spec.column!)[0] ?? null,
+    last: (group, spec) => presentValues(group, spec.column!).slice(-1)[0] ?? null,
+    weighted_average: (group, spec) => {
+        // Rows with an empty value or weight are left out rather than counted as 0
+        const pairs = group
+            .filter(r => isPresent(r[spec.column!]) && isPresent(r[spec.weight_column!]))
+            .map(r => [Number(r[spec.column!]), Number(r[spec.weight_column!])])
+            .filter(([v, w]) => !isNaN(v) && !isNaN(w));
+        const totalWeight = d3.sum(pairs, ([, w]) => w);
+        return totalWeight !== 0 ? d3.sum(pairs, ([v, w]) => v * w) / totalWeight : null;
+    },
+};
+
+// Validates aggregation specs against the dataset and fills in the default output column names
+function resolveAggregationSpecs(specs: AggregationSpec[], dataset: DataSet, dataset_name: string, groupColumns: string[]) {
+    return specs.map(spec => {
+        const fn = String(spec.function);
+        if (!AGGREGATORS[fn]) {
+            throw new Error(`Unsupported aggregation function: ${fn}. Available functions: ${Object.keys(AGGREGATORS).join(', ')}.`);
+        }
+        if (fn !== 'count' && !spec.column) {
+            throw new Error(`Aggregation function "${fn}" requires a column.`);
+        }
+        if (fn === 'weighted_average' && !spec.weight_column) {
+            throw new Error('Aggregation function "weighted_average" requires a weight_column.');
+        }
+        [...groupColumns, spec.column, spec.weight_column].filter((c): c is string => !!c).forEach(column => {
+            if (!dataset.stats.columnNames.includes(column)) {
+                throw new Error(`Column "${column}" was not found in dataset "${dataset_name}".`);
+            }
+        });
+        const percentile = Number(spec.percentile);
+        if (fn === 'percentile' && !(percentile >= 0 && percentile <= 100)) {
+            throw new Error(`Aggregation function "percentile" requires a percentile between 0 and 100, but got ${spec.percentile}.`);
+        }
+        const defaultAlias = fn === 'percentile' ? `${spec.column}_p${percentile}` : `${spec.column ?? 'row'}_${fn}`;
+        return { ...spec, function: fn, percentile, alias: spec.alias || defaultAlias };
+    });
+}
+
+interface SortKey {
+    column: string;
+    direction?: 'asc' | 'desc';
+}
+
+// Validates sort keys against the dataset; the direction defaults to ascending
+function resolveSortKeys(sortBy: SortKey[] | undefined, dataset: DataSet, dataset_name: string): Required<SortKey>[] {
+    return (Array.isArray(sortBy) ? sortBy : []).map(key => {
+        if (!dataset.stats.columnNames.includes(key.column)) {
+            throw new Error(`Column "${key.column}" was not found in dataset "${dataset_name}". Available columns: ${dataset.stats.columnNames.join(', ')}.`);
+        }
+        const direction = String(key.direction ?? 'asc').toLowerCase();
+        if (direction !== 'asc' && direction !== 'desc') {
+            throw new Error(`Sort direction "${key.direction}" is not supported for column "${key.column}". Use "asc" or "desc".`);
+        }
+        return { column: key.column, direction };
+    });
+}
+
+// Date- and number-aware row comparison; empty values sort last in both directions
+function compareBySortKeys(a: CsvRow, b: CsvRow, keys: SortKey[]): number {
+    for (const { column, direction } of keys) {
+        const left = a[column];
+        const right = b[column];
+        const leftEmpty = left === null || left === undefined || left === '';
+        const rightEmpty = right === null || right === undefined || right === '';
+        if (leftEmpty || rightEmpty) {
+            if (leftEmpty !== rightEmpty) return leftEmpty ? 1 : -1;
+            continue;
+        }
+        const order = compareFilterValues(left, right);
+        if (order !== 0) return direction === 'desc' ? -order : order;
+    }
+    return 0;
 }
 
 export class ToolExecutor {
@@ -48,11 +399,13 @@ export class ToolExecutor {
     private intermediateData: Record<string, DataSet> = {};
     private stepCounter = 0;
     private artifacts: VisualContent[] = [];
+    private forecastAccuracyLog: CsvRow[] = [];
 
     public reset() {
         this.intermediateData = {};
         this.stepCounter = 0;
         this.artifacts = [];
+        this.forecastAccuracyLog = [];
     }
 
     public loadData(dataSets: DataSets) {
@@ -115,6 +468,231 @@ export class ToolExecutor {
         return newName;
     }
 
+    // Values sharing a date are summed so that transaction-level data forms a single series
+    private buildTimeSeries(dataset: DataSet, date_column: string, value_column: string): [string, number][] {
+        [date_column, value_column].forEach(column => {
+            if (!dataset.stats.columnNames.includes(column)) {
+                throw new Error(`Column "${column}" was not found in dataset "${dataset.name}".`);
+            }
+        });
+        return d3.rollups(
+            dataset.data
+                .map(row => ({ date: String(row[date_column] ?? '').slice(0, 10), value: Number(row[value_column]) }))
+                .filter(d => !isNaN(new Date(`${d.date}T00:00:00Z`).getTime()) && !isNaN(d.value)),
+            v => d3.sum(v, d => d.value),
+            d => d.date,
+        ).sort(([a], [b]) => a.localeCompare(b));
+    }
+
+    // Builds a per-date map of "units per USD" rates from the fx_rates dataset. USD itself is always 1.
+    private getFxRateHistory(): { dates: string[]; ratesByDate: Map<string, Map<string, number>> } {
+        const fxRates = this.getDataset(DataType.FX_RATES);
+        const ratesByDate = new Map<string, Map<string, number>>();
+        fxRates.data.forEach(row => {
+            const date = String(row.rate_date ?? '').slice(0, 10);
+            const currency = String(row.to_currency ?? '').trim().toUpperCase();
+            const rate = Number(row.rate);
+            if (!date || !currency || !isFinite(rate) || rate <= 0) return;
+            if (!ratesByDate.has(date)) ratesByDate.set(date, new Map([['USD', 1]]));
+            ratesByDate.get(date)!.set(currency, rate);
+        });
+        const dates = [...ratesByDate.keys()].sort();
+        if (dates.length === 0) {
+            throw new Error('The "fx_rates" dataset does not contain any valid rates.');
+        }
+        return { dates, ratesByDate };
+    }
+
+    // Returns the latest known rate per currency at or before the given date (defaults to the latest rate_date).
+    private getFxRatesAsOf(as_of_date?: string): { rateDate: string; rates: Map<string, number> } {
+        const { dates, ratesByDate } = this.getFxRateHistory();
+        const cutoff = as_of_date ? String(as_of_date).slice(0, 10) : dates[dates.length - 1];
+        const rates = new Map<string, number>([['USD', 1]]);
+        let rateDate = '';
+        for (const date of dates) {
+            if (date > cutoff) break;
+            ratesByDate.get(date)!.forEach((rate, currency) => rates.set(currency, rate));
+            rateDate = date;
+        }
+        if (!rateDate) {
+            throw new Error(`No fx_rates data is available on or before ${cutoff}.`);
+        }
+        return { rateDate, rates };
+    }
+
+    // Cross rate "quote per base" through USD, e.g. EUR/JPY = (JPY per USD) / (EUR per USD).
+    private getCrossRate(rates: Map<string, number>, base: string, quote: string): number | null {
+        const baseRate = rates.get(base);
+        const quoteRate = rates.get(quote);
+        if (baseRate === undefined || quoteRate === undefined) return null;
+        return quoteRate / baseRate;
+    }
+
+    private parseCurrencyPair(pair: string): [string, string] {
+        const parts = String(pair).toUpperCase().split(/[\/_\-\s]+/).filter(Boolean);
+        if (parts.length !== 2 || parts.some(p => !/^[A-Z]{3}$/.test(p))) {
+            throw new Error(`Invalid currency pair "${pair}". Use the format "USD/JPY".`);
+        }
+        return [parts[0], parts[1]];
+    }
+
+    // Daily log returns of two cross rates over the last `lookbackDays` rate dates where both are quoted.
+    private getAlignedLogReturns(pairA: [string, string], pairB: [string, string], lookbackDays: number): { a: number[]; b: number[] } {
+        const { dates, ratesByDate } = this.getFxRateHistory();
+        const levels: { a: number; b: number }[] = [];
+        dates.forEach(date => {
+            const rates = ratesByDate.get(date)!;
+            const a = this.getCrossRate(rates, pairA[0], pairA[1]);
+            const b = this.getCrossRate(rates, pairB[0], pairB[1]);
+            if (a !== null && b !== null) levels.push({ a, b });
+        });
+        const window = levels.slice(-(lookbackDays + 1));
+        const a: number[] = [];
+        const b: number[] = [];
+        for (let i = 1; i < window.length; i++) {
+            a.push(Math.log(window[i].a / window[i - 1].a));
+            b.push(Math.log(window[i].b / window[i - 1].b));
+        }
+        return { a, b };
+    }
+
+    // Daily log returns of every currency against `base`, over the last `lookbackDays` rate dates quoting all of them.
+    private getLogReturnMatrix(base: string, currencies: string[], lookbackDays: number, as_of_date?: string): Map<string, number[]> {
+        const { dates, ratesByDate } = this.getFxRateHistory();
+        const cutoff = as_of_date ? String(as_of_date).slice(0, 10) : dates[dates.length - 1];
+        const levels: number[][] = [];
+        dates.forEach(date => {
+            if (date > cutoff) return;
+            const rates = ratesByDate.get(date)!;
+            const row = currencies.map(c => this.getCrossRate(rates, base, c));
+            if (row.every(r => r !== null)) levels.push(row as number[]);
+        });
+        const window = levels.slice(-(lookbackDays + 1));
+        const returns = new Map<string, number[]>(currencies.map(c => [c, []]));
+        for (let i = 1; i < window.length; i++) {
+            currencies.forEach((c, j) => returns.get(c)!.push(Math.log(window[i][j] / window[i - 1][j])));
+        }
+        return returns;
+    }
+
+    // Settlement rule shared by every tool that reads trade_items. A settlement date column (settlement_date,
+    // settled_date or paid_date) or a status column is used when the dataset has one. Otherwise the rule decides:
+    // "due_date" treats each item as settled on its due date, "none" keeps every issued item open, overdue ones included.
+    private getTradeItemSettlement(settlement_rule: string = 'due_date') {
+        const rule = String(settlement_rule || 'due_date');
+        if (rule !== 'due_date' && rule !== 'none') {
+            throw new Error(`Unsupported settlement rule: ${settlement_rule}. Available rules: due_date, none.`);
+        }
+        const columns = this.getDataset(DataType.TRADE_ITEMS).stats.columnNames;
+        const settlementColumn = ['settlement_date', 'settled_date', 'paid_date'].find(c => columns.includes(c)) ?? null;
+        const statusColumn = columns.includes('status') ? 'status' : null;
+        const settledStatuses = new Set(['PAID', 'SETTLED', 'CLOSED', 'CLEARED']);
+
+        const isSettled = (row: CsvRow, date: string) => {
+            if (settlementColumn) {
+                const settlementDate = String(row[settlementColumn] ?? '').slice(0, 10);
+                return settlementDate !== '' && settlementDate <= date;
+            }
+            if (statusColumn) return settledStatuses.has(String(row[statusColumn] ?? '').toUpperCase());
+            if (rule === 'none') return false;
+            const dueDate = String(row.due_date ?? '').slice(0, 10);
+            return dueDate !== '' && dueDate <= date;
+        };
+        const isOpen = (row: CsvRow, date: string) => {
+            const issueDate = String(row.issue_date ?? '').slice(0, 10);
+            return !(issueDate && issueDate > date) && !isSettled(row, date);
+        };
+        const note = settlementColumn
+            ? `売掛金・買掛金は${settlementColumn}列に基づき、基準日時点で未決済のものを対象としました。`
+            : statusColumn
+                ? `売掛金・買掛金はstatus列が決済済み（${[...settledStatuses].join('/')}）のものを除外しました。`
+                : rule === 'due_date'
+                    ? '`trade_items`に決済日・ステータス列がないため、売掛金・買掛金は期日に決済されたものとみなし、期日到来済みのものを除外しました（settlement_rule: "none"で期日超過分も未決済として扱えます）。'
+                    : '`trade_items`に決済日・ステータス列がないため、発行済みの売掛金・買掛金はすべて未決済（期日超過分を含む）として扱いました。';
+        return { rule, hasSettlementData: settlementColumn !== null || statusColumn !== null, isSettled, isOpen, note };
+    }
+
+    // Collects signed FX positions per company and currency: cash from the latest account_balances snapshot,
+    // receivables (+) and payables (-) from trade_items open on the as-of date, and outstanding loan principal (-) from loans.
+    private buildFxExposurePositions(as_of_date?: string, settlement_rule?: string): { asOfDate: string; balanceSnapshotDate: string | null; settlementNote: string; positions: { company_code: string; currency: string; component: 'cash' | 'receivables' | 'payables' | 'debt'; amount: number }[] } {
+        const balances = this.getDataset(DataType.ACCOUNT_BALANCES);
+        const tradeItems = this.getDataset(DataType.TRADE_ITEMS);
+        const loans = this.getDataset(DataType.LOANS);
+
+        const evaluationDates = balances.data.map(r => String(r.evaluation_date ?? '').slice(0, 10)).filter(Boolean).sort();
+        const asOfDate = as_of_date ? String(as_of_date).slice(0, 10) : evaluationDates[evaluationDates.length - 1];
+        if (!asOfDate) {
+            throw new Error('An as-of date could not be determined because "account_balances" has no evaluation_date values.');
+        }
+
+        const positions: { company_code: string; currency: string; component: 'cash' | 'receivables' | 'payables' | 'debt'; amount: number }[] = [];
+
+        // Latest snapshot per account at or before the as-of date
+        const latestBalances = new Map<string, CsvRow>();
+        balances.data.forEach(row => {
+            const date = String(row.evaluation_date ?? '').slice(0, 10);
+            if (!date || date > asOfDate) return;
+            const accountId = String(row.account_id);
+            const current = latestBalances.get(accountId);
+            if (!current || String(current.evaluation_date) < date) latestBalances.set(accountId, row);
+        });
+        latestBalances.forEach(row => {
+            const amount = Number(row.balance);
+            if (isNaN(amount)) return;
+            positions.push({ company_code: String(row.company_code), currency: String(row.currency).toUpperCase(), component: 'cash', amount });
+        });
+
+        const settlement = this.getTradeItemSettlement(settlement_rule);
+        tradeItems.data.forEach(row => {
+            const amount = Number(row.amount);
+            if (!settlement.isOpen(row, asOfDate) || isNaN(amount)) return;
+            const isPayable = String(row.item_type).toUpperCase() === 'AP';
+            positions.push({
+                company_code: String(row.company_code),
+                currency: String(row.currency).toUpperCase(),
+                component: isPayable ? 'payables' : 'receivables',
+                amount: isPayable ? -Math.abs(amount) : Math.abs(amount),
+            });
+        });
+
+        loans.data.forEach(row => {
+            const startDate = String(row.start_date ?? '').slice(0, 10);
+            const maturityDate = String(row.maturity_date ?? '').slice(0, 10);
+            const amount = Number(row.principal_amount);
+            if ((startDate && startDate > asOfDate) || (maturityDate && maturityDate <= asOfDate) || isNaN(amount)) return;
+            positions.push({ company_code: String(row.company_code), currency: String(row.currency).toUpperCase(), component: 'debt', amount: -Math.abs(amount) });
+        });
+
+        const balanceSnapshotDate = d3.max([...latestBalances.values()], row => String(row.evaluation_date).slice(0, 10)) ?? null;
+        return { asOfDate, balanceSnapshotDate, settlementNote: settlement.note, positions };
+    }
+
+    // Maps each account_id to its company_code and country_code using the account_balances dataset.
+    private getAccountDirectory(): Map<string, { company_code: string; country_code: string; currency: string }> {
+        const directory = new Map<string, { company_code: string; country_code: string; currency: string }>();
+        this.getDataset(DataType.ACCOUNT_BALANCES).data.forEach(row => {
+            if (row.account_id === null || row.account_id === undefined) return;
+            directory.set(String(row.account_id), {
+                company_code: String(row.company_code),
+                country_code: String(row.country_code),
+                currency: String(row.currency).toUpperCase(),
+            });
+        });
+        return directory;
+    }
+
+    // Coupon dates of a loan, stepping `monthsPerPeriod` from the start date and always ending on the maturity date.
+    private getCouponDates(startDate: string, maturityDate: string, monthsPerPeriod: number): string[] {
+        const dates: string[] = [];
+        for (let i = 1; ; i++) {
+            const date = addMonths(startDate, i * monthsPerPeriod);
+            if (date >= maturityDate) break;
+            dates.push(date);
+        }
+        dates.push(maturityDate);
+        return dates;
+    }
+
     public async execute(toolCall: any): Promise<{ result: any; artifact?: MessageContent, newDataSet?: DataSet }> {
         const { name, args } = toolCall;
         
@@ -126,25 +704,65 @@ export class ToolExecutor {
                 case 'get_dataset_schema':
                     promise = this.getDatasetSchema(args.dataset_name); break;
                 case 'filter_data':
-                    promise = this.filterData(args.dataset_name, args.column, args.operator, args.value); break;
+                    promise = this.filterData(args.dataset_name, args.column, args.operator, args.value, args.filter); break;
                 case 'aggregate_data':
-                    promise = this.aggregateData(args.dataset_name, args.group_by_columns, args.aggregation_column, args.aggregation_function); break;
+                    promise = this.aggregateData(args.dataset_name, args.group_by_columns, args.aggregation_column, args.aggregation_function, args.aggregations); break;
+                case 'pivot_dataset':
+                    promise = this.pivotDataset(args.dataset_name, args.index_columns, args.pivot_column, args.values, args.total_column, args.total_row, args.column_values, args.fill_value); break;
+                case 'unpivot_dataset':
+                    promise = this.unpivotDataset(args.dataset_name, args.id_columns, args.value_columns, args.variable_column_name, args.value_column_name, args.drop_nulls); break;
+                case 'sort_dataset':
+                    promise = this.sortDataset(args.dataset_name, args.sort_by); break;
+                case 'top_n':
+                    promise = this.selectTopN(args.dataset_name, args.n, args.sort_by, args.group_by_columns, args.rank_column); break;
+                case 'add_window_columns':
+                    promise = this.addWindowColumns(args.dataset_name, args.windows, args.partition_by, args.order_by); break;
                 case 'add_column':
                     promise = this.addColumn(args.dataset_name, args.new_column_name, args.expression); break;
                 case 'get_descriptive_stats':
                     promise = this.getDescriptiveStats(args.dataset_name, args.column); break;
                 case 'join_datasets':
-                    promise = this.joinDatasets(args.left_dataset_name, args.right_dataset_name, args.left_on_column, args.right_on_column, args.join_type); break;
+                    promise = this.joinDatasets(args.left_dataset_name, args.right_dataset_name, args.left_on_column, args.right_on_column, args.join_type, args.left_on_columns, args.right_on_columns, args.left_asof_column, args.right_asof_column, args.asof_tolerance_days, args.right_suffix, args.left_suffix); break;
                 case 'union_datasets':
-                    promise = this.unionDatasets(args.dataset_names); break;
+                    promise = this.unionDatasets(args.dataset_names, args.mode, args.column_mapping, args.source_column); break;
                 case 'forecast_time_series':
-                    promise = this.forecastTimeSeries(args.dataset_name, args.date_column, args.value_column, args.forecast_periods, args.frequency); break;
+                    promise = this.forecastTimeSeries(args.dataset_name, args.date_column, args.value_column, args.forecast_periods, args.frequency, args.model, args.seasonal_period, args.holdout_periods, args.confidence_level); break;
+                case 'resample_time_series':
+                    promise = this.resampleTimeSeries(args.dataset_name, args.date_column, args.value_columns, args.frequency, args.aggregation, args.group_by_columns, args.fiscal_year_start_month, args.fill_method); break;
+                case 'backtest_forecast':
+                    promise = this.backtestForecast(args.dataset_name, args.date_column, args.value_column, args.forecast_periods, args.frequency, args.folds, args.step_periods, args.models, args.seasonal_period); break;
+                case 'forecast_cash_position':
+                    promise = this.forecastCashPosition(args.horizon_days, args.frequency, args.as_of_date, args.company_code, args.currency, args.interest_payment_frequency, args.settlement_rule); break;
+                case 'generate_loan_schedule':
+                    promise = this.generateLoanSchedule(args.amortization_type, args.day_count, args.payment_frequency, args.contract_ids, args.from_date, args.to_date); break;
+                case 'calculate_interest_rate_scenario':
+                    promise = this.calculateInterestRateScenario(args.parallel_shift_bp, args.currency_shifts, args.reporting_currency, args.as_of_date, args.floor_at_zero); break;
+                case 'analyze_debt_maturity':
+                    promise = this.analyzeDebtMaturity(args.bucket, args.reporting_currency, args.as_of_date, args.concentration_threshold_pct); break;
+                case 'analyze_trade_aging':
+                    promise = this.analyzeTradeAging(args.as_of_date, args.group_by_columns, args.reporting_currency, args.lookback_days, args.settlement_rule); break;
+                case 'compute_fx_exposure':
+                    promise = this.computeFxExposure(args.reporting_currency, args.as_of_date, args.rate_date, args.settlement_rule); break;
+                case 'analyze_concentration_risk':
+                    promise = this.analyzeConcentrationRisk(args.limits, args.reporting_currency, args.as_of_date, args.bank_mapping, args.settlement_rule); break;
+                case 'propose_intercompany_netting':
+                    promise = this.proposeIntercompanyNetting(args.netting_currency, args.period, args.dataset_name, args.counterparty_column, args.netting_center_company_code); break;
+                case 'simulate_cash_pool':
+                    promise = this.simulateCashPool(args.header_company_code, args.pool_currency, args.header_account_id, args.participant_company_codes, args.target_balances, args.default_target_balance, args.from_date, args.to_date, args.deposit_rate_pct, args.borrowing_rate_pct, args.day_count, args.include_other_currencies); break;
+                case 'detect_transaction_anomalies':
+                    promise = this.detectTransactionAnomalies(args.dataset_name, args.z_threshold, args.rolling_window_days, args.min_history, args.duplicate_window_days, args.holidays, args.flag_weekends); break;
+                case 'reconcile_bank_balances':
+                    promise = this.reconcileBankBalances(args.tolerance, args.account_ids, args.nearest_count, args.search_window_days, args.balances_dataset_name); break;
                 case 'calculate_correlated_forex_scenario':
-                    promise = this.calculateCorrelatedForexScenario(args.base_currency_pair, args.scenario_rate, args.periods); break;
+                    promise = this.calculateCorrelatedForexScenario(args.base_currency_pair, args.scenario_rate, args.periods, args.correlated_currency_pair, args.lookback_days); break;
+                case 'calculate_multi_currency_scenario':
+                    promise = this.calculateMultiCurrencyScenario(args.shocks, args.base_currency, args.lookback_days, args.horizon_days, args.as_of_date); break;
+                case 'calculate_fx_var':
+                    promise = this.calculateFxVar(args.confidence_levels, args.horizon_days, args.reporting_currency, args.lookback_days, args.as_of_date, args.settlement_rule); break;
                 case 'verify_visualization_data':
                     promise = this.verifyVisualizationData(args.dataset_name, args.visualization_type, args.columns); break;
                 case 'render_table':
-                    promise = this.renderTable(args.dataset_name, args.title); break;
+                    promise = this.renderTable(args.dataset_name, args.title, args.columns, args.decimal_places); break;
                 case 'render_bar_chart':
                     promise = this.renderBarChart(args.dataset_name, args.category_column, args.value_column, args.title); break;
                 case 'render_pie_chart':
@@ -244,22 +862,26 @@ export class ToolExecutor {
         return { result: { columns: column_types, preview_rows: preview_rows } };
     }
 
-    private async filterData(dataset_name: string, column: string, operator: string, value: any) {
+    private async filterData(dataset_name: string, column?: string, operator?: string, value?: any, filter?: FilterGroup) {
         const dataset = this.getDataset(dataset_name);
-        const filtered = dataset.data.filter(row => {
-            const rowVal = row[column];
-            if (rowVal === undefined || rowVal === null) return false;
-            switch(operator) {
-                case '==': return rowVal == value;
-                case '!=': return rowVal != value;
-                case '>': return rowVal > value;
-                case '<': return rowVal < value;
-                case '>=': return rowVal >= value;
-                case '<=': return rowVal <= value;
-                case 'contains': return String(rowVal).toLowerCase().includes(String(value).toLowerCase());
-                default: return false;
-            }
-        });
+        const filterGroup: FilterGroup = filter && ((filter.conditions?.length ?? 0) > 0 || (filter.groups?.length ?? 0) > 0)
+            ? filter
+            : { conditions: column && operator ? [{ column, operator, value }] : [] };
+        if ((filterGroup.conditions?.length ?? 0) === 0 && (filterGroup.groups?.length ?? 0) === 0) {
+            throw new Error('filter_data requires either column, operator and value, or a filter with at least one condition.');
+        }
+
+        const checkColumns = (group: FilterGroup) => {
+            (group.conditions ?? []).forEach(condition => {
+                if (!dataset.stats.columnNames.includes(condition.column)) {
+                    throw new Error(`Column "${condition.column}" was not found in dataset "${dataset_name}". Available columns: ${dataset.stats.columnNames.join(', ')}.`);
+                }
+            });
+            (group.groups ?? []).forEach(checkColumns);
+        };
+        checkColumns(filterGroup);
+
+        const filtered = dataset.data.filter(row => evaluateFilterGroup(row, filterGroup));
         const resultName = this.saveResult(filtered);
         const newDataSet = this.intermediateData[resultName];
 
@@ -269,7 +891,7 @@ export class ToolExecutor {
                     new_dataset_name: resultName,
                     rows: 0,
                     columns: newDataSet.stats.columnNames,
-                    warning: `指定された条件（列: ${column}, 条件: ${operator}, 値: ${value}）でのフィルタリング結果が0件でした。条件が厳しすぎる可能性があります。`,
+                    warning: `指定された条件（${describeFilterGroup(filterGroup)}）でのフィルタリング結果が0件でした。条件が厳しすぎる可能性があります。`,
                     data_preview: newDataSet.data.slice(0, 5),
                 },
                 newDataSet
@@ -279,49 +901,39 @@ export class ToolExecutor {
         return { result: { new_dataset_name: resultName, rows: filtered.length, columns: newDataSet.stats.columnNames, data_preview: newDataSet.data.slice(0, 5) }, newDataSet };
     }
 
-    private async aggregateData(dataset_name: string, groupByCols: string[], aggCol: string, aggFunc: string) {
+    private async aggregateData(dataset_name: string, groupByCols: string[], aggCol?: string, aggFunc?: string, aggregations?: AggregationSpec[]) {
         const dataset = this.getDataset(dataset_name);
-        const groups: Record<string, CsvRow[]> = {};
+        const groupColumns = Array.isArray(groupByCols) ? groupByCols : [];
+        const specs = Array.isArray(aggregations) && aggregations.length > 0
+            ? aggregations
+            : aggFunc ? [{ column: aggCol, function: aggFunc }] : [];
+        if (specs.length === 0) {
+            throw new Error('aggregate_data requires either aggregation_column and aggregation_function, or a non-empty aggregations list.');
+        }
+
+        const resolvedSpecs = resolveAggregationSpecs(specs, dataset, dataset_name, groupColumns);
+        const aliases = resolvedSpecs.map(spec => spec.alias);
+        const duplicateAlias = aliases.find((alias, i) => aliases.indexOf(alias) !== i || groupColumns.includes(alias));
+        if (duplicateAlias) {
+            throw new Error(`Output column "${duplicateAlias}" is produced more than once. Give each aggregation a unique alias.`);
+        }
+
+        // Group keys are serialized as arrays so that values containing separators (e.g. "ACCT-JP-001") never collide
+        const groups = new Map<string, CsvRow[]>();
         dataset.data.forEach(row => {
-            const key = groupByCols.map(c => row[c]).join('-');
-            if (!groups[key]) groups[key] = [];
-            groups[key].push(row);
+            const key = JSON.stringify(groupColumns.map(c => row[c] ?? null));
+            const group = groups.get(key);
+            if (group) group.push(row);
+            else groups.set(key, [row]);
         });
-        
-        const newAggColName = `${aggCol}_${aggFunc}`;
 
-        const aggregated = Object.values(groups).map(group => {
+        const aggregated = [...groups.values()].map(group => {
             const firstRow = group[0];
             const resultRow: CsvRow = {};
-            groupByCols.forEach(c => resultRow[c] = firstRow[c]);
-            
-            switch(aggFunc) {
-                case 'sum': {
-                    const values = group.map(r => Number(r[aggCol])).filter(v => !isNaN(v));
-                    resultRow[newAggColName] = d3.sum(values);
-                    break;
-                }
-                case 'count':
-                    resultRow[newAggColName] = group.length;
-                    break;
-                case 'average': {
-                     const values = group.map(r => Number(r[aggCol])).filter(v => !isNaN(v));
-                     resultRow[newAggColName] = d3.mean(values) || 0;
-                     break;
-                }
-                case 'max': {
-                    const values = group.map(r => r[aggCol]).filter(v => v !== null && v !== undefined);
-                    resultRow[newAggColName] = d3.max(values as any) ?? null;
-                    break;
-                }
-                case 'min': {
-                    const values = group.map(r => r[aggCol]).filter(v => v !== null && v !== undefined);
-                    resultRow[newAggColName] = d3.min(values as any) ?? null;
-                    break;
-                }
-                default:
-                    throw new Error(`Unsupported aggregation function: ${aggFunc}`);
-            }
+            groupColumns.forEach(c => resultRow[c] = firstRow[c]);
+            resolvedSpecs.forEach(spec => {
+                resultRow[spec.alias] = AGGREGATORS[spec.function](group, spec);
+            });
             return resultRow;
         });
         
@@ -335,366 +947,2766 @@ export class ToolExecutor {
         return { result: { new_dataset_name: resultName, rows: aggregated.length, columns: newDataSet.stats.columnNames, data_preview: newDataSet.data.slice(0, 5) }, newDataSet };
     }
 
-    private async addColumn(dataset_name: string, new_column_name: string, expression: string) {
+    private async pivotDataset(dataset_name: string, index_columns: string[] = [], pivot_column: string, values: AggregationSpec[], total_column: boolean = true, total_row: boolean = false, column_values?: (string | number)[], fill_value?: number) {
         const dataset = this.getDataset(dataset_name);
-        let currentExpression = expression;
-
-        // Scalar replacement logic
-        const scalarRegex = /\[(\w+)\]\.(\w+)/g;
-        let match;
-        while ((match = scalarRegex.exec(currentExpression)) !== null) {
-            const [, lookupDatasetName, lookupColumnName] = match;
-            const lookupDataset = this.getDataset(lookupDatasetName);
-            if (lookupDataset.data.length !== 1) {
-                throw new Error(`Scalar lookup failed: Dataset "${lookupDatasetName}" does not have exactly one row.`);
-            }
-            const scalarValue = lookupDataset.data[0][lookupColumnName];
-            if (scalarValue === null || scalarValue === undefined) {
-                throw new Error(`Scalar lookup failed: Value from "${lookupDatasetName}.${lookupColumnName}" is null or undefined.`);
-            }
-
-            if (typeof scalarValue === 'string') {
-                currentExpression = currentExpression.replace(match[0], `'${scalarValue.replace(/'/g, "\\'")}'`);
-            } else {
-                currentExpression = currentExpression.replace(match[0], String(scalarValue));
-            }
+        const indexColumns = Array.isArray(index_columns) ? index_columns : [];
+        if (!pivot_column || !dataset.stats.columnNames.includes(pivot_column)) {
+            throw new Error(`Pivot column "${pivot_column}" was not found in dataset "${dataset_name}". Available columns: ${dataset.stats.columnNames.join(', ')}.`);
+        }
+        if (indexColumns.includes(pivot_column)) {
+            throw new Error(`Column "${pivot_column}" cannot be both an index column and the pivot column.`);
+        }
+        if (!Array.isArray(values) || values.length === 0) {
+            throw new Error('pivot_dataset requires at least one entry in values.');
+        }
+        const specs = resolveAggregationSpecs(values, dataset, dataset_name, indexColumns);
+        const aliases = specs.map(spec => spec.alias);
+        const duplicateAlias = aliases.find((alias, i) => aliases.indexOf(alias) !== i);
+        if (duplicateAlias) {
+            throw new Error(`Value "${duplicateAlias}" is produced more than once. Give each value aggregation a unique alias.`);
         }
-        
-        const literals: string[] = [];
-        // This regex handles single and double quoted strings, including escaped quotes.
-        const stringLiteralRegex = /(["'])(?:\\.|(?!\1).)*\1/g;
-
-        // 1. Extract string literals and replace them with placeholders.
-        let tempExpression = currentExpression.replace(stringLiteralRegex, (match) => {
-            const placeholder = `__STRING_LITERAL_${literals.length}__`;
-            literals.push(match);
-            return placeholder;
-        });
 
-        const columnNames = dataset.stats.columnNames;
-        // Sort by length descending to match longer names first (e.g., "col_a" before "col").
-        const sortedColumnNames = [...columnNames].sort((a, b) => b.length - a.length);
+        const labelOf = (value: unknown) => value === null || value === undefined || value === '' ? '(blank)' : String(value);
 
-        // 2. Replace column names (as whole words) with `row['...']` access.
-        // This regex now operates on a string without string literals, so it's safer.
-        const columnRegex = new RegExp(`\\b(${sortedColumnNames.map(escapeRegExp).join('|')})\\b`, 'g');
-        
-        tempExpression = tempExpression.replace(columnRegex, (match) => {
-            return `row['${match.replace(/'/g, "\\'")}']`;
-        });
-        
-        // 3. Put string literals back into the expression.
-        let modifiedExpression = tempExpression.replace(/__STRING_LITERAL_(\d+)__/g, (match, index) => {
-            return literals[parseInt(index, 10)];
+        // Pivot columns are sorted so that the layout does not depend on row order; an explicit
+        // column_values list takes precedence and any values it does not mention follow in sorted order.
+        const distinctLabels = new Map<string, unknown>();
+        dataset.data.forEach(row => {
+            const label = labelOf(row[pivot_column]);
+            if (!distinctLabels.has(label)) distinctLabels.set(label, row[pivot_column]);
         });
-        
-        let evaluator: (row: CsvRow) => any;
-        try {
-            // The inner try/catch will handle row-level errors during evaluation (e.g., division by zero, null values)
-            evaluator = new Function('row', `try { return ${modifiedExpression}; } catch(e) { return null; }`) as (row: CsvRow) => any;
-        } catch (e) {
-            // Make the error message more helpful
-            if (e instanceof SyntaxError) {
-                 throw new Error(`Invalid expression format for: "${expression}". Please check the syntax. The final evaluated code was "${modifiedExpression}". Error: ${e.message}`);
-            }
-            throw new Error(`Failed to parse expression: "${expression}". Error: ${e instanceof Error ? e.message : String(e)}`);
+        const sortedLabels = [...distinctLabels.entries()].sort(([, a], [, b]) => compareFilterValues(a ?? '', b ?? '')).map(([label]) => label);
+        const requestedLabels = Array.isArray(column_values) ? [...new Set(column_values.map(labelOf))] : [];
+        const pivotLabels = [...requestedLabels, ...sortedLabels.filter(label => !requestedLabels.includes(label))];
+        const MAX_PIVOT_COLUMNS = 100;
+        if (pivotLabels.length > MAX_PIVOT_COLUMNS) {
+            throw new Error(`Column "${pivot_column}" has ${pivotLabels.length} distinct values, which exceeds the limit of ${MAX_PIVOT_COLUMNS} pivot columns. Filter or aggregate the data first, or choose a column with fewer values.`);
         }
 
-        let warning: string | null = null;
-        let affectedRowCount = 0;
+        const singleValue = specs.length === 1;
+        const cellName = (label: string, alias: string) => singleValue ? label : `${label}_${alias}`;
+        const totalName = (alias: string) => singleValue ? 'total' : `total_${alias}`;
+        const outputColumns = [
+            ...indexColumns,
+            ...pivotLabels.flatMap(label => specs.map(spec => cellName(label, spec.alias))),
+            ...(total_column ? specs.map(spec => totalName(spec.alias)) : []),
+        ];
+        const collision = outputColumns.find((col, i) => outputColumns.indexOf(col) !== i);
+        if (collision) {
+            throw new Error(`Pivoted column "${collision}" collides with another output column. Rename the index column or use aliases for the values.`);
+        }
 
-        const newData = dataset.data.map(row => {
-            const result = evaluator(row);
-            
-            if (result === null || result === undefined || (typeof result === 'number' && !isFinite(result))) {
-                 if (!warning) {
-                    warning = '一部の行で計算が実行できませんでした（例：値がnull、ゼロ除算など）。結果はnullになっています。';
-                }
-                affectedRowCount++;
-                return { ...row, [new_column_name]: null };
+        // Totals are aggregated from the underlying rows rather than from the cells, so averages and
+        // distinct counts stay correct in the total row and column.
+        const buildRow = (rows: CsvRow[], indexValues: CsvRow): CsvRow => {
+            const byLabel = d3.group(rows, r => labelOf(r[pivot_column]));
+            const row: CsvRow = { ...indexValues };
+            pivotLabels.forEach(label => {
+                const cellRows = byLabel.get(label);
+                specs.forEach(spec => {
+                    row[cellName(label, spec.alias)] = cellRows ? AGGREGATORS[spec.function](cellRows, spec) : fill_value ?? null;
+                });
+            });
+            if (total_column) {
+                specs.forEach(spec => {
+                    row[totalName(spec.alias)] = rows.length > 0 ? AGGREGATORS[spec.function](rows, spec) : fill_value ?? null;
+                });
             }
-            
-            return { ...row, [new_column_name]: result };
+            return row;
+        };
+
+        const groups = new Map<string, CsvRow[]>();
+        dataset.data.forEach(row => {
+            const key = JSON.stringify(indexColumns.map(c => row[c] ?? null));
+            const group = groups.get(key);
+            if (group) group.push(row);
+            else groups.set(key, [row]);
         });
+        const pivotedRows = [...groups.values()]
+            .map(rows => buildRow(rows, Object.fromEntries(indexColumns.map(c => [c, rows[0][c] ?? null]))))
+            .sort((a, b) => compareBySortKeys(a, b, indexColumns.map(column => ({ column }))));
+        // The total row puts the label 'Total' into the first index column, so it is opt-in and meant for display
+        if (total_row && indexColumns.length > 0) {
+            pivotedRows.push(buildRow(dataset.data, Object.fromEntries(indexColumns.map((c, i) => [c, i === 0 ? 'Total' : null]))));
+        }
 
-        const resultName = this.saveResult(newData);
+        const resultName = this.saveResult(pivotedRows);
         const newDataSet = this.intermediateData[resultName];
-        
-        const resultPayload: { new_dataset_name: string, rows: number, columns: string[], warning?: string, data_preview?: CsvRow[] } = {
+
+        const resultPayload: Record<string, any> = {
             new_dataset_name: resultName,
-            rows: newData.length,
+            rows: pivotedRows.length,
+            message: `Pivoted "${pivot_column}" into ${pivotLabels.length} columns${indexColumns.length > 0 ? ` by ${indexColumns.join(', ')}` : ''} with ${specs.map(spec => `${spec.function}(${spec.column ?? '*'})`).join(', ')}.`,
+            pivot_columns: pivotLabels,
             columns: newDataSet.stats.columnNames,
-            data_preview: newDataSet.data.slice(0, 5)
+            data_preview: newDataSet.data.slice(0, 5),
         };
-
-        if(warning) {
-            resultPayload.warning = `${warning} (${affectedRowCount}行が影響を受けました)`;
+        const unknownRequested = requestedLabels.filter(label => !distinctLabels.has(label));
+        if (unknownRequested.length > 0) {
+            resultPayload.warning = `column_valuesの次の値は"${pivot_column}"に存在しないため、空の列になっています: ${unknownRequested.join(', ')}`;
         }
 
         return { result: resultPayload, newDataSet };
     }
-    
-    private async getDescriptiveStats(dataset_name: string, column: string) {
+
+    private async unpivotDataset(dataset_name: string, id_columns: string[] = [], value_columns?: string[], variable_column_name: string = 'variable', value_column_name: string = 'value', drop_nulls: boolean = false) {
         const dataset = this.getDataset(dataset_name);
-        
-        const validValues = dataset.data.map(r => r[column]).filter(v => v !== null && v !== undefined && v !== '');
-        
-        if (validValues.length === 0) {
-            throw new Error(`Column "${column}" is empty or contains only null/empty values.`);
+        const idColumns = Array.isArray(id_columns) ? id_columns : [];
+        const valueColumns = Array.isArray(value_columns) && value_columns.length > 0
+            ? value_columns
+            : dataset.stats.columnNames.filter(col => !idColumns.includes(col));
+        const missing = [...idColumns, ...valueColumns].filter(col => !dataset.stats.columnNames.includes(col));
+        if (missing.length > 0) {
+            throw new Error(`Column(s) ${missing.map(c => `"${c}"`).join(', ')} were not found in dataset "${dataset_name}". Available columns: ${dataset.stats.columnNames.join(', ')}.`);
+        }
+        if (valueColumns.length === 0) {
+            throw new Error('unpivot_dataset found no value columns to unpivot. Specify value_columns or fewer id_columns.');
+        }
+        const overlap = valueColumns.filter(col => idColumns.includes(col));
+        if (overlap.length > 0) {
+            throw new Error(`Column(s) ${overlap.join(', ')} cannot be both id columns and value columns.`);
+        }
+        if ([variable_column_name, value_column_name].some(name => idColumns.includes(name)) || variable_column_name === value_column_name) {
+            throw new Error(`The output column names "${variable_column_name}" and "${value_column_name}" must differ from each other and from the id columns.`);
         }
-        
-        const columnType = this.getColumnType(validValues[0]);
 
-        if (columnType === 'number') {
-            const values = validValues.map(Number).filter(v => !isNaN(v));
-            if (values.length === 0) throw new Error(`No valid numerical data found in column "${column}" after attempting conversion.`);
+        // Rows keep the source order, with one row per value column in the order the columns were given
+        const unpivotedRows: CsvRow[] = [];
+        dataset.data.forEach(row => {
+            valueColumns.forEach(col => {
+                const value = row[col] ?? null;
+                if (drop_nulls && (value === null || value === '')) return;
+                const newRow: CsvRow = {};
+                idColumns.forEach(c => newRow[c] = row[c] ?? null);
+                newRow[variable_column_name] = col;
+                newRow[value_column_name] = value;
+                unpivotedRows.push(newRow);
+            });
+        });
 
-            const sortedValues = [...values].sort((a,b) => a-b);
-            const stats = {
-                count: values.length,
-                mean: d3.mean(values),
-                median: d3.median(values),
-                std_dev: d3.deviation(values),
-                min: d3.min(values),
-                max: d3.max(values),
-                q1: d3.quantile(sortedValues, 0.25),
-                q3: d3.quantile(sortedValues, 0.75),
-            };
-            return { result: { statistics: stats, message: `Numerical statistics for column "${column}" have been calculated.` } };
-        } else if (columnType === 'date') {
-            const dateValues = validValues
-                .map(v => new Date(v as string))
-                .filter(d => !isNaN(d.getTime()));
-            
-            if (dateValues.length === 0) throw new Error(`No valid date data found in column "${column}" after attempting conversion.`);
+        const resultName = this.saveResult(unpivotedRows);
+        const newDataSet = this.intermediateData[resultName];
 
-            const uniqueDates = new Set(dateValues.map(d => d.toISOString().split('T')[0]));
-            const minDate = d3.min(dateValues);
-            const maxDate = d3.max(dateValues);
+        return {
+            result: {
+                new_dataset_name: resultName,
+                rows: unpivotedRows.length,
+                message: `Unpivoted ${valueColumns.length} columns of "${dataset_name}" into "${variable_column_name}" and "${value_column_name}".`,
+                columns: newDataSet.stats.columnNames,
+                data_preview: newDataSet.data.slice(0, 5),
+            },
+            newDataSet
+        };
+    }
 
-            if (!minDate || !maxDate) {
+    private async sortDataset(dataset_name: string, sort_by: SortKey[]) {
+        const dataset = this.getDataset(dataset_name);
+        const keys = resolveSortKeys(sort_by, dataset, dataset_name);
+        if (keys.length === 0) {
+            throw new Error('sort_dataset requires at least one entry in sort_by.');
+        }
+
+        // Array.prototype.sort is stable, so rows that tie on every key keep their original order
+        const sortedRows = [...dataset.data].sort((a, b) => compareBySortKeys(a, b, keys));
+
+        const resultName = this.saveResult(sortedRows);
+        const newDataSet = this.intermediateData[resultName];
+
+        return {
+            result: {
+                new_dataset_name: resultName,
+                rows: sortedRows.length,
+                message: `Sorted "${dataset_name}" by ${keys.map(k => `${k.column} ${k.direction}`).join(', ')}.`,
+                columns: newDataSet.stats.columnNames,
+                data_preview: newDataSet.data.slice(0, 5),
+            },
+            newDataSet
+        };
+    }
+
+    private async selectTopN(dataset_name: string, n: number, sort_by: SortKey[], group_by_columns: string[] = [], rank_column?: string) {
+        const dataset = this.getDataset(dataset_name);
+        const keys = resolveSortKeys(sort_by, dataset, dataset_name);
+        if (keys.length === 0) {
+            throw new Error('top_n requires at least one entry in sort_by.');
+        }
+        const limit = Number(n);
+        if (!Number.isInteger(limit) || limit < 1) {
+            throw new Error(`n must be a positive integer, but got ${n}.`);
+        }
+        const groupColumns = Array.isArray(group_by_columns) ? group_by_columns : [];
+        const missingColumns = groupColumns.filter(col => !dataset.stats.columnNames.includes(col));
+        if (missingColumns.length > 0) {
+            throw new Error(`Column(s) ${missingColumns.map(c => `"${c}"`).join(', ')} were not found in dataset "${dataset_name}". Available columns: ${dataset.stats.columnNames.join(', ')}.`);
+        }
+        if (rank_column && dataset.stats.columnNames.includes(rank_column)) {
+            throw new Error(`Column "${rank_column}" already exists in dataset "${dataset_name}". Choose a different rank_column.`);
+        }
+
+        // Groups are listed in ascending order of their key, each followed by its top rows
+        const sortedRows = [...dataset.data].sort((a, b) =>
+            compareBySortKeys(a, b, groupColumns.map(column => ({ column }))) || compareBySortKeys(a, b, keys));
+        const taken = new Map<string, number>();
+        const topRows: CsvRow[] = [];
+        sortedRows.forEach(row => {
+            const key = JSON.stringify(groupColumns.map(c => row[c] ?? null));
+            const position = (taken.get(key) ?? 0) + 1;
+            if (position > limit) return;
+            taken.set(key, position);
+            topRows.push(rank_column ? { ...row, [rank_column]: position } : row);
+        });
+
+        const resultName = this.saveResult(topRows);
+        const newDataSet = this.intermediateData[resultName];
+
+        return {
+            result: {
+                new_dataset_name: resultName,
+                rows: topRows.length,
+                message: `Selected the top ${limit} rows by ${keys.map(k => `${k.column} ${k.direction}`).join(', ')}${groupColumns.length > 0 ? ` within each of ${taken.size} groups of ${groupColumns.join(', ')}` : ''}.`,
+                columns: newDataSet.stats.columnNames,
+                data_preview: newDataSet.data.slice(0, 5),
+            },
+            newDataSet
+        };
+    }
+
+    private async addWindowColumns(dataset_name: string, windows: { function: string; column?: string; alias?: string; window_size?: number; periods?: number; direction?: 'asc' | 'desc' }[], partition_by: string[] = [], order_by?: SortKey[]) {
+        const dataset = this.getDataset(dataset_name);
+        const partitionColumns = Array.isArray(partition_by) ? partition_by : [];
+        const orderKeys = resolveSortKeys(order_by, dataset, dataset_name);
+        const missingColumns = partitionColumns.filter(col => !dataset.stats.columnNames.includes(col));
+        if (missingColumns.length > 0) {
+            throw new Error(`Column(s) ${missingColumns.map(c => `"${c}"`).join(', ')} were not found in dataset "${dataset_name}". Available columns: ${dataset.stats.columnNames.join(', ')}.`);
+        }
+        if (!Array.isArray(windows) || windows.length === 0) {
+            throw new Error('add_window_columns requires at least one entry in windows.');
+        }
+
+        const orderedFunctions = ['running_total', 'moving_average', 'difference', 'pct_change', 'lag', 'row_number'];
+        const supportedFunctions = [...orderedFunctions, 'rank', 'dense_rank', 'share_of_total'];
+        const specs = windows.map(spec => {
+            const fn = String(spec.function);
+            if (!supportedFunctions.includes(fn)) {
+                throw new Error(`Unsupported window function: ${fn}. Available functions: ${supportedFunctions.join(', ')}.`);
+            }
+            if (fn !== 'row_number' && !spec.column) {
+                throw new Error(`Window function "${fn}" requires a column.`);
+            }
+            if (spec.column && !dataset.stats.columnNames.includes(spec.column)) {
+                throw new Error(`Column "${spec.column}" was not found in dataset "${dataset_name}". Available columns: ${dataset.stats.columnNames.join(', ')}.`);
+            }
+            if (orderedFunctions.includes(fn) && orderKeys.length === 0) {
+                throw new Error(`Window function "${fn}" depends on row order. Provide order_by (e.g., [{"column": "date", "direction": "asc"}]).`);
+            }
+            const windowSize = Number(spec.window_size ?? 3);
+            if (fn === 'moving_average' && !(Number.isInteger(windowSize) && windowSize >= 1)) {
+                throw new Error(`window_size must be a positive integer, but got ${spec.window_size}.`);
+            }
+            const periods = Number(spec.periods ?? 1);
+            if (['difference', 'pct_change', 'lag'].includes(fn) && !(Number.isInteger(periods) && periods >= 1)) {
+                throw new Error(`periods must be a positive integer, but got ${spec.periods}.`);
+            }
+            const direction = String(spec.direction ?? 'desc').toLowerCase();
+            if (direction !== 'asc' && direction !== 'desc') {
+                throw new Error(`Rank direction "${spec.direction}" is not supported. Use "asc" or "desc".`);
+            }
+            const defaultAlias = fn === 'row_number' ? 'row_number'
+                : fn === 'moving_average' ? `${spec.column}_ma${windowSize}`
+                : fn === 'share_of_total' ? `${spec.column}_share_pct`
+                : `${spec.column}_${fn}`;
+            return { fn, column: spec.column, alias: spec.alias || defaultAlias, windowSize, periods, direction };
+        });
+        const aliases = specs.map(spec => spec.alias);
+        const duplicateAlias = aliases.find((alias, i) => aliases.indexOf(alias) !== i || dataset.stats.columnNames.includes(alias));
+        if (duplicateAlias) {
+            throw new Error(`Output column "${duplicateAlias}" already exists or is produced more than once. Give each window calculation a unique alias.`);
+        }
+
+        const toNumber = (value: unknown) => value === null || value === undefined || value === '' || isNaN(Number(value)) ? null : Number(value);
+
+        // Output rows are ordered by partition and then by order_by, so each partition reads top to bottom
+        const partitionKeys = partitionColumns.map(column => ({ column }));
+        const orderedRows = dataset.data
+            .map(row => ({ ...row }))
+            .sort((a, b) => compareBySortKeys(a, b, partitionKeys) || compareBySortKeys(a, b, orderKeys));
+        const partitions = new Map<string, CsvRow[]>();
+        orderedRows.forEach(row => {
+            const key = JSON.stringify(partitionColumns.map(c => row[c] ?? null));
+            const partition = partitions.get(key);
+            if (partition) partition.push(row);
+            else partitions.set(key, [row]);
+        });
+
+        partitions.forEach(rows => {
+            specs.forEach(spec => {
+                const values = spec.column ? rows.map(r => toNumber(r[spec.column!])) : [];
+                switch (spec.fn) {
+                    case 'running_total': {
+                        let total = 0;
+                        rows.forEach((row, i) => {
+                            total += values[i] ?? 0;
+                            row[spec.alias] = total;
+                        });
+                        break;
+                    }
+                    case 'moving_average':
+                        // Trailing window; rows before the first full window get null
+                        rows.forEach((row, i) => {
+                            const window = i + 1 >= spec.windowSize ? values.slice(i + 1 - spec.windowSize, i + 1).filter((v): v is number => v !== null) : [];
+                            row[spec.alias] = d3.mean(window) ?? null;
+                        });
+                        break;
+                    case 'difference':
+                    case 'pct_change':
+                    case 'lag':
+                        rows.forEach((row, i) => {
+                            const previous = i >= spec.periods ? values[i - spec.periods] : null;
+                            const current = values[i];
+                            if (spec.fn === 'lag') {
+                                row[spec.alias] = i >= spec.periods ? rows[i - spec.periods][spec.column!] ?? null : null;
+                            } else if (previous === null || current === null) {
+                                row[spec.alias] = null;
+                            } else if (spec.fn === 'difference') {
+                                row[spec.alias] = current - previous;
+                            } else {
+                                row[spec.alias] = previous !== 0 ? (current - previous) / Math.abs(previous) * 100 : null;
+                            }
+                        });
+                        break;
+                    case 'row_number':
+                        rows.forEach((row, i) => row[spec.alias] = i + 1);
+                        break;
+                    case 'rank':
+                    case 'dense_rank': {
+                        // Ties share a rank; "rank" then skips positions (1, 2, 2, 4) while "dense_rank" does not (1, 2, 2, 3)
+                        const ranked = rows
+                            .map((row, i) => ({ row, value: values[i] }))
+                            .filter((entry): entry is { row: CsvRow; value: number } => entry.value !== null)
+                            .sort((a, b) => spec.direction === 'desc' ? b.value - a.value : a.value - b.value);
+                        let rank = 0;
+                        let distinct = 0;
+                        ranked.forEach((entry, i) => {
+                            if (i === 0 || entry.value !== ranked[i - 1].value) {
+                                rank = i + 1;
+                                distinct++;
+                            }
+                            entry.row[spec.alias] = spec.fn === 'rank' ? rank : distinct;
+                        });
+                        rows.forEach((row, i) => {
+                            if (values[i] === null) row[spec.alias] = null;
+                        });
+                        break;
+                    }
+                    case 'share_of_total': {
+                        const total = d3.sum(values, v => v ?? 0);
+                        rows.forEach((row, i) => {
+                            row[spec.alias] = values[i] !== null && total !== 0 ? values[i]! / total * 100 : null;
+                        });
+                        break;
+                    }
+                }
+            });
+        });
+
+        const resultName = this.saveResult(orderedRows);
+        const newDataSet = this.intermediateData[resultName];
+
+        return {
+            result: {
+                new_dataset_name: resultName,
+                rows: orderedRows.length,
+                message: `Added ${specs.map(spec => `"${spec.alias}" (${spec.fn}${spec.column ? ` of ${spec.column}` : ''})`).join(', ')}${partitionColumns.length > 0 ? ` within each of ${partitions.size} partitions of ${partitionColumns.join(', ')}` : ''}.`,
+                columns: newDataSet.stats.columnNames,
+                data_preview: newDataSet.data.slice(0, 5),
+            },
+            newDataSet
+        };
+    }
+
+    private async addColumn(dataset_name: string, new_column_name: string, expression: string) {
+        const dataset = this.getDataset(dataset_name);
+
+        let compiled: CompiledExpression;
+        try {
+            compiled = compileExpression(expression);
+        } catch (e) {
+            throw new Error(`Invalid expression format for: "${expression}". ${e instanceof Error ? e.message : String(e)}`);
+        }
+
+        const missingColumns = compiled.columns.filter(column => !dataset.stats.columnNames.includes(column));
+        if (missingColumns.length > 0) {
+            throw new Error(`Unknown column(s) in expression "${expression}": ${missingColumns.join(', ')}. Available columns: ${dataset.stats.columnNames.join(', ')}. Quote text values with '...' and column names containing spaces with \`...\`.`);
+        }
+
+        // Scalar lookups: [dataset].column must come from a single-row dataset
+        const scalarValues = new Map<string, ExpressionValue>();
+        compiled.scalars.forEach(({ dataset: lookupDatasetName, column: lookupColumnName }) => {
+            const lookupDataset = this.getDataset(lookupDatasetName);
+            if (lookupDataset.data.length !== 1) {
+                throw new Error(`Scalar lookup failed: Dataset "${lookupDatasetName}" does not have exactly one row.`);
+            }
+            const scalarValue = lookupDataset.data[0][lookupColumnName];
+            if (scalarValue === null || scalarValue === undefined) {
+                throw new Error(`Scalar lookup failed: Value from "${lookupDatasetName}.${lookupColumnName}" is null or undefined.`);
+            }
+            scalarValues.set(`${lookupDatasetName}.${lookupColumnName}`, scalarValue);
+        });
+
+        let nullRowCount = 0;
+        const rowErrors: string[] = [];
+        let errorRowCount = 0;
+
+        const newData = dataset.data.map((row, index) => {
+            let result: ExpressionValue;
+            try {
+                result = compiled.evaluate(row, scalarValues);
+            } catch (e) {
+                if (!(e instanceof ExpressionError)) throw e;
+                errorRowCount++;
+                if (rowErrors.length < 3) rowErrors.push(`${index + 1}行目: ${e.message}`);
+                return { ...row, [new_column_name]: null };
+            }
+
+            if (result === null || (typeof result === 'number' && !isFinite(result))) {
+                nullRowCount++;
+                return { ...row, [new_column_name]: null };
+            }
+            return { ...row, [new_column_name]: typeof result === 'boolean' ? String(result) : result };
+        });
+
+        const resultName = this.saveResult(newData);
+        const newDataSet = this.intermediateData[resultName];
+        
+        const resultPayload: { new_dataset_name: string, rows: number, columns: string[], warning?: string, data_preview?: CsvRow[] } = {
+            new_dataset_name: resultName,
+            rows: newData.length,
+            columns: newDataSet.stats.columnNames,
+            data_preview: newDataSet.data.slice(0, 5)
+        };
+
+        const warnings: string[] = [];
+        if (errorRowCount > 0) {
+            warnings.push(`${errorRowCount}行で計算エラーが発生したため、結果はnullになっています（例: ${rowErrors.join(' / ')}）。`);
+        }
+        if (nullRowCount > 0) {
+            warnings.push(`一部の行で計算が実行できませんでした（例：値がnullなど）。結果はnullになっています。 (${nullRowCount}行が影響を受けました)`);
+        }
+        if (warnings.length > 0) {
+            resultPayload.warning = warnings.join(' ');
+        }
+
+        return { result: resultPayload, newDataSet };
+    }
+    
+    private async getDescriptiveStats(dataset_name: string, column: string) {
+        const dataset = this.getDataset(dataset_name);
+        
+        const validValues = dataset.data.map(r => r[column]).filter(v => v !== null && v !== undefined && v !== '');
+        
+        if (validValues.length === 0) {
+            throw new Error(`Column "${column}" is empty or contains only null/empty values.`);
+        }
+        
+        const columnType = this.getColumnType(validValues[0]);
+
+        if (columnType === 'number') {
+            const values = validValues.map(Number).filter(v => !isNaN(v));
+            if (values.length === 0) throw new Error(`No valid numerical data found in column "${column}" after attempting conversion.`);
+
+            const sortedValues = [...values].sort((a,b) => a-b);
+            const stats = {
+                count: values.length,
+                mean: d3.mean(values),
+                median: d3.median(values),
+                std_dev: d3.deviation(values),
+                min: d3.min(values),
+                max: d3.max(values),
+                q1: d3.quantile(sortedValues, 0.25),
+                q3: d3.quantile(sortedValues, 0.75),
+            };
+            return { result: { statistics: stats, message: `Numerical statistics for column "${column}" have been calculated.` } };
+        } else if (columnType === 'date') {
+            const dateValues = validValues
+                .map(v => new Date(v as string))
+                .filter(d => !isNaN(d.getTime()));
+            
+            if (dateValues.length === 0) throw new Error(`No valid date data found in column "${column}" after attempting conversion.`);
+
+            const uniqueDates = new Set(dateValues.map(d => d.toISOString().split('T')[0]));
+            const minDate = d3.min(dateValues);
+            const maxDate = d3.max(dateValues);
+
+            if (!minDate || !maxDate) {
                 throw new Error(`Could not determine date range for column "${column}"`);
             }
 
-            const duration_days = (maxDate.getTime() - minDate.getTime()) / (1000 * 60 * 60 * 24);
+            const duration_days = (maxDate.getTime() - minDate.getTime()) / (1000 * 60 * 60 * 24);
+
+            const stats = {
+                count: dateValues.length,
+                unique_count: uniqueDates.size,
+                start_date: minDate.toISOString().split('T')[0],
+                end_date: maxDate.toISOString().split('T')[0],
+                duration_days: Math.round(duration_days),
+            };
+            return { result: { statistics: stats, message: `Date statistics for column "${column}" have been calculated.` } };
+        } else {
+            throw new Error(`Column "${column}" does not contain numerical or date data. Its type is "${columnType}".`);
+        }
+    }
+    
+    private async joinDatasets(left_dataset_name: string, right_dataset_name: string, left_on_column: string | undefined, right_on_column: string | undefined, join_type: string, left_on_columns?: string[], right_on_columns?: string[], left_asof_column?: string, right_asof_column?: string, asof_tolerance_days?: number, right_suffix: string = '_right', left_suffix: string = '') {
+        const supportedJoins = ['inner', 'left', 'right', 'full', 'asof'];
+        if (!supportedJoins.includes(join_type)) {
+            throw new Error(`Join type "${join_type}" is not supported. Available types: ${supportedJoins.join(', ')}.`);
+        }
+        const isAsOf = join_type === 'asof';
+
+        const leftDs = this.getDataset(left_dataset_name);
+        const rightDs = this.getDataset(right_dataset_name);
+
+        const leftKeys = left_on_columns?.length ? left_on_columns : (left_on_column ? [left_on_column] : []);
+        const rightKeys = right_on_columns?.length ? right_on_columns : (right_on_column ? [right_on_column] : []);
+        if (leftKeys.length !== rightKeys.length) {
+            throw new Error(`The number of left key columns (${leftKeys.length}) and right key columns (${rightKeys.length}) must match.`);
+        }
+        if (leftKeys.length === 0 && !isAsOf) {
+            throw new Error('At least one key column pair is required. Provide left_on_column/right_on_column or left_on_columns/right_on_columns.');
+        }
+        if (isAsOf && (!left_asof_column || !right_asof_column)) {
+            throw new Error('The "asof" join requires left_asof_column and right_asof_column.');
+        }
+        if (asof_tolerance_days !== undefined && (!isFinite(asof_tolerance_days) || asof_tolerance_days < 0)) {
+            throw new Error('asof_tolerance_days must be a non-negative number.');
+        }
+
+        const validateColumns = (ds: DataSet, name: string, columns: string[]) => {
+            const missing = columns.filter(col => !ds.stats.columnNames.includes(col));
+            if (missing.length > 0) {
+                throw new Error(`Column(s) ${missing.map(c => `"${c}"`).join(', ')} were not found in dataset "${name}". Available columns: ${ds.stats.columnNames.join(', ')}.`);
+            }
+        };
+        validateColumns(leftDs, left_dataset_name, isAsOf ? [...leftKeys, left_asof_column!] : leftKeys);
+        validateColumns(rightDs, right_dataset_name, isAsOf ? [...rightKeys, right_asof_column!] : rightKeys);
+
+        // Right key columns are coalesced into their left counterparts; every other column that exists on
+        // both sides is renamed with the configured suffixes. The as-of date columns are kept separately
+        // so that the matched right date remains visible.
+        const rightColumns = rightDs.stats.columnNames.filter(col => !rightKeys.includes(col));
+        const collisions = new Set(rightColumns.filter(col => leftDs.stats.columnNames.includes(col)));
+        if (collisions.size > 0 && !right_suffix && !left_suffix) {
+            throw new Error(`Columns ${[...collisions].join(', ')} exist in both datasets. Provide a non-empty right_suffix or left_suffix.`);
+        }
+        const leftOutput = leftDs.stats.columnNames.map(col => ({
+            source: col,
+            target: collisions.has(col) && !leftKeys.includes(col) ? `${col}${left_suffix}` : col,
+        }));
+        const rightOutput = rightColumns.map(col => ({
+            source: col,
+            target: collisions.has(col) ? `${col}${right_suffix}` : col,
+        }));
+        const outputNames = [...leftOutput, ...rightOutput].map(c => c.target);
+        const duplicateNames = outputNames.filter((name, i) => outputNames.indexOf(name) !== i);
+        if (duplicateNames.length > 0) {
+            throw new Error(`The suffixes produce duplicate column names: ${[...new Set(duplicateNames)].join(', ')}. Choose different suffixes.`);
+        }
+
+        const mergeRows = (leftRow: CsvRow | null, rightRow: CsvRow | null): CsvRow => {
+            const newRow: CsvRow = {};
+            const leftData = leftRow || {};
+            const rightData = rightRow || {};
+            leftOutput.forEach(({ source, target }) => {
+                newRow[target] = leftData[source] ?? null;
+            });
+            // Coalesce the join keys: if a left key is null, use the right key
+            leftKeys.forEach((leftKey, i) => {
+                if (newRow[leftKey] === null && (rightData[rightKeys[i]] ?? null) !== null) {
+                    newRow[leftKey] = rightData[rightKeys[i]];
+                }
+            });
+            rightOutput.forEach(({ source, target }) => {
+                newRow[target] = rightData[source] ?? null;
+            });
+            return newRow;
+        };
+
+        const keyOf = (row: CsvRow, keys: string[]) => JSON.stringify(keys.map(k => row[k] ?? null));
+
+        const rightMapGrouped = new Map<string, CsvRow[]>();
+        rightDs.data.forEach(row => {
+            const key = keyOf(row, rightKeys);
+            const group = rightMapGrouped.get(key) || [];
+            group.push(row);
+            rightMapGrouped.set(key, group);
+        });
+
+        const joinedData: CsvRow[] = [];
+        const warnings: string[] = [];
+        let asofSummary: Record<string, number> | null = null;
+
+        if (isAsOf) {
+            // Each key group is sorted by date once; rows with the same date keep their original order,
+            // so the last of them wins, as with a sequence of snapshots.
+            const datedGroups = new Map<string, { time: number; row: CsvRow }[]>();
+            let unparsedRightDates = 0;
+            rightMapGrouped.forEach((rows, key) => {
+                const dated = rows
+                    .map(row => ({ time: parseDateValue(row[right_asof_column!]), row }))
+                    .filter((entry): entry is { time: number; row: CsvRow } => {
+                        if (entry.time === null) unparsedRightDates++;
+                        return entry.time !== null;
+                    });
+                dated.sort((a, b) => a.time - b.time);
+                datedGroups.set(key, dated);
+            });
+
+            const toleranceMs = asof_tolerance_days !== undefined ? asof_tolerance_days * 86400000 : Infinity;
+            let exactMatches = 0;
+            let earlierMatches = 0;
+            let unmatched = 0;
+            leftDs.data.forEach(leftRow => {
+                const time = parseDateValue(leftRow[left_asof_column!]);
+                const candidates = datedGroups.get(keyOf(leftRow, leftKeys)) || [];
+                let match: { time: number; row: CsvRow } | null = null;
+                if (time !== null) {
+                    // Binary search for the last right row at or before the left date
+                    let lo = 0;
+                    let hi = candidates.length - 1;
+                    while (lo <= hi) {
+                        const mid = (lo + hi) >> 1;
+                        if (candidates[mid].time <= time) {
+                            match = candidates[mid];
+                            lo = mid + 1;
+                        } else {
+                            hi = mid - 1;
+                        }
+                    }
+                    if (match && time - match.time > toleranceMs) match = null;
+                }
+                if (!match) {
+                    unmatched++;
+                } else if (match.time === time) {
+                    exactMatches++;
+                } else {
+                    earlierMatches++;
+                }
+                joinedData.push(mergeRows(leftRow, match ? match.row : null));
+            });
+
+            asofSummary = { exact_matches: exactMatches, earlier_date_matches: earlierMatches, unmatched_rows: unmatched };
+            if (unmatched > 0) {
+                warnings.push(`${unmatched}行は"${left_asof_column}"以前${asof_tolerance_days !== undefined ? `（${asof_tolerance_days}日以内）` : ''}の"${right_asof_column}"を持つ"${right_dataset_name}"の行が見つからず、右側の列がnullになっています。`);
+            }
+            if (unparsedRightDates > 0) {
+                warnings.push(`"${right_dataset_name}"の${unparsedRightDates}行は"${right_asof_column}"を日付として解釈できないため除外しました。`);
+            }
+        } else {
+            const matchedRightKeys = new Set<string>();
+
+            leftDs.data.forEach(leftRow => {
+                const key = keyOf(leftRow, leftKeys);
+                const matchingRightRows = rightMapGrouped.get(key);
+                if (matchingRightRows) {
+                    matchedRightKeys.add(key);
+                    if (join_type === 'inner' || join_type === 'left' || join_type === 'full') {
+                        matchingRightRows.forEach(rightRow => {
+                            joinedData.push(mergeRows(leftRow, rightRow));
+                        });
+                    }
+                } else if (join_type === 'left' || join_type === 'full') {
+                    joinedData.push(mergeRows(leftRow, null));
+                }
+            });
+
+            if (join_type === 'right' || join_type === 'full') {
+                rightDs.data.forEach(rightRow => {
+                    if (!matchedRightKeys.has(keyOf(rightRow, rightKeys))) {
+                        joinedData.push(mergeRows(null, rightRow));
+                    }
+                });
+            }
+        }
+
+        const resultName = this.saveResult(joinedData);
+        const newDataSet = this.intermediateData[resultName];
+
+        const resultPayload: Record<string, any> = {
+            new_dataset_name: resultName,
+            rows: joinedData.length,
+            columns: newDataSet.stats.columnNames,
+            data_preview: newDataSet.data.slice(0, 5),
+        };
+        if (asofSummary) resultPayload.asof_summary = asofSummary;
+        if (joinedData.length === 0) {
+            warnings.unshift(`"${left_dataset_name}" と "${right_dataset_name}" の結合結果が0件でした。結合キーが一致していない可能性があります。`);
+        }
+        if (warnings.length > 0) resultPayload.warning = warnings.join(' ');
+
+        return { result: resultPayload, newDataSet };
+    }
+    
+    private async unionDatasets(dataset_names: string[], mode: string = 'strict', column_mapping: { dataset_name?: string; from_column: string; to_column: string }[] = [], source_column?: string) {
+        if (!Array.isArray(dataset_names) || dataset_names.length < 2) {
+            throw new Error('union_datasets requires an array of at least two dataset names.');
+        }
+        if (mode !== 'strict' && mode !== 'by_name') {
+            throw new Error(`Union mode "${mode}" is not supported. Available modes: strict, by_name.`);
+        }
+
+        // Renames are applied per dataset before the schemas are compared; a mapping without a dataset name applies to all of them
+        const mappings = Array.isArray(column_mapping) ? column_mapping : [];
+        const unknownDatasets = mappings.filter(m => m.dataset_name && !dataset_names.includes(m.dataset_name)).map(m => m.dataset_name);
+        if (unknownDatasets.length > 0) {
+            throw new Error(`column_mapping refers to datasets that are not being unioned: ${[...new Set(unknownDatasets)].join(', ')}.`);
+        }
+        const sources = dataset_names.map(name => {
+            const dataset = this.getDataset(name);
+            const renames = new Map<string, string>();
+            mappings
+                .filter(m => !m.dataset_name || m.dataset_name === name)
+                .forEach(m => {
+                    if (dataset.stats.columnNames.includes(m.from_column)) renames.set(m.from_column, m.to_column);
+                });
+            const columns = dataset.stats.columnNames.map(col => renames.get(col) ?? col);
+            const duplicates = columns.filter((col, i) => columns.indexOf(col) !== i);
+            if (duplicates.length > 0) {
+                throw new Error(`column_mapping produces duplicate columns in dataset "${name}": ${[...new Set(duplicates)].join(', ')}.`);
+            }
+            return { name, dataset, renames, columns };
+        });
+        const unusedMappings = mappings.filter(m => !sources.some(src => src.renames.has(m.from_column) && (!m.dataset_name || m.dataset_name === src.name)));
+        if (unusedMappings.length > 0) {
+            throw new Error(`column_mapping refers to columns that do not exist: ${unusedMappings.map(m => `${m.dataset_name ? `${m.dataset_name}.` : ''}${m.from_column}`).join(', ')}.`);
+        }
+
+        const firstSchema = sources[0].columns;
+        let unionColumns: string[];
+        if (mode === 'strict') {
+            sources.slice(1).forEach(({ name, columns }) => {
+                if (columns.length !== firstSchema.length || !columns.every((col, index) => col === firstSchema[index])) {
+                    throw new Error(`Schema mismatch: Dataset "${name}" does not have the same columns and order as "${dataset_names[0]}". Expected [${firstSchema.join(', ')}] but got [${columns.join(', ')}]. Use mode "by_name" to align columns by name and fill missing columns with null.`);
+                }
+            });
+            unionColumns = firstSchema;
+        } else {
+            // Columns keep the order in which they first appear across the datasets
+            unionColumns = [];
+            sources.forEach(({ columns }) => columns.forEach(col => {
+                if (!unionColumns.includes(col)) unionColumns.push(col);
+            }));
+        }
+        if (source_column && unionColumns.includes(source_column)) {
+            throw new Error(`source_column "${source_column}" already exists in the datasets. Choose a different name.`);
+        }
+
+        const allRows: CsvRow[] = [];
+        sources.forEach(({ name, dataset, renames }) => {
+            dataset.data.forEach(row => {
+                const newRow: CsvRow = {};
+                if (source_column) newRow[source_column] = name;
+                unionColumns.forEach(col => newRow[col] = null);
+                Object.entries(row).forEach(([col, value]) => {
+                    newRow[renames.get(col) ?? col] = value;
+                });
+                allRows.push(newRow);
+            });
+        });
+
+        const resultName = this.saveResult(allRows);
+        const newDataSet = this.intermediateData[resultName];
+
+        const resultPayload: Record<string, any> = {
+            new_dataset_name: resultName,
+            rows: allRows.length,
+            columns: newDataSet.stats.columnNames,
+            data_preview: newDataSet.data.slice(0, 5),
+        };
+        if (mode === 'by_name') {
+            const filledColumns: Record<string, string[]> = {};
+            sources.forEach(({ name, columns }) => {
+                const missing = unionColumns.filter(col => !columns.includes(col));
+                if (missing.length > 0) filledColumns[name] = missing;
+            });
+            if (Object.keys(filledColumns).length > 0) {
+                resultPayload.null_filled_columns = filledColumns;
+                resultPayload.warning = `次のデータセットに存在しない列はnullで補完されています: ${Object.entries(filledColumns).map(([name, cols]) => `${name}（${cols.join(', ')}）`).join('、')}。列名の表記ゆれで別々の列になっていないか確認し、必要に応じて\`column_mapping\`で列名を揃えてください。`;
+            }
+        }
+
+        return { result: resultPayload, newDataSet };
+    }
+
+    private async forecastTimeSeries(dataset_name: string, date_column: string, value_column: string, forecast_periods: number, frequency: 'daily' | 'weekly' | 'monthly' | 'quarterly', model: ForecastModel | 'auto' = 'auto', seasonal_period?: number, holdout_periods?: number, confidence_level: number = 0.95) {
+        const dataset = this.getDataset(dataset_name);
+        const horizon = Math.max(1, Math.floor(Number(forecast_periods) || 1));
+        if (model !== 'auto' && !FORECAST_MODELS.includes(model)) {
+            throw new Error(`Unsupported forecast model: ${model}. Available models: auto, ${FORECAST_MODELS.join(', ')}.`);
+        }
+        const confidence = Number(confidence_level);
+        if (!(confidence > 0 && confidence < 1)) {
+            throw new Error(`Invalid confidence level: ${confidence_level}. Use a value between 0 and 1, e.g. 0.95.`);
+        }
+
+        // The models assume one observation per period, so the series is aggregated to `frequency` first
+        const { series, filledPeriods } = regularizeSeries(this.buildTimeSeries(dataset, date_column, value_column), frequency);
+        if (series.length < 3) {
+            throw new Error('Time series forecasting requires at least three data points.');
+        }
+        const values = series.map(([, value]) => value);
+
+        const seasonLength = Math.max(1, Math.floor(Number(seasonal_period) || DEFAULT_SEASONAL_PERIODS[frequency] || 1));
+        const holdout = Math.max(1, Math.min(Math.floor(Number(holdout_periods) || horizon), Math.floor(values.length * 0.2)));
+        const evaluations = values.length - holdout >= 3 ? evaluateOnHoldout(values, holdout, seasonLength) : [];
+        const scored = evaluations.filter(e => e.metrics !== null);
+
+        let chosenModel: ForecastModel;
+        if (model !== 'auto') {
+            chosenModel = model;
+        } else if (scored.length > 0) {
+            chosenModel = scored.reduce((best, e) => e.metrics!.rmse < best.metrics!.rmse ? e : best).model;
+        } else {
+            chosenModel = 'linear';
+        }
+        const fitted = fitForecastModel(chosenModel, values, horizon, seasonLength);
+        const z = normalQuantile(0.5 + confidence / 2);
+
+        const lastDate = series[series.length - 1][0];
+        const forecastData: CsvRow[] = fitted.point.map((forecastValue, i) => ({
+            [date_column]: stepPeriodDate(lastDate, frequency, i + 1),
+            [value_column]: null,
+            forecast: forecastValue,
+            forecast_upper: forecastValue + z * fitted.stdErrors[i],
+            forecast_lower: forecastValue - z * fitted.stdErrors[i],
+        }));
+
+        // History is the aggregated series the models were fitted on, so that it shares the forecast's scale
+        const combinedData: CsvRow[] = series.map(([date, value]): CsvRow => ({
+            [date_column]: date,
+            [value_column]: value,
+            forecast: null,
+            forecast_upper: null,
+            forecast_lower: null,
+        })).concat(forecastData);
+
+        const resultName = this.saveResult(combinedData);
+        const newDataSet = this.intermediateData[resultName];
+        const round = (value: number | null) => value === null ? null : parseFloat(value.toFixed(4));
+        const chosenEvaluation = evaluations.find(e => e.model === chosenModel);
+
+        const resultPayload: Record<string, any> = {
+            new_dataset_name: resultName,
+            rows: combinedData.length,
+            message: `Aggregated "${value_column}" into ${series.length} ${frequency} periods and generated a forecast for ${horizon} more with the ${fitted.description} model${model === 'auto' ? `, selected by the lowest RMSE on the last ${holdout} periods` : ''}. Prediction intervals are at the ${confidence * 100}% level and widen with the horizon.`,
+            columns: newDataSet.stats.columnNames,
+            data_preview: newDataSet.data.slice(0, 5),
+            model: chosenModel,
+            model_description: fitted.description,
+            seasonal_period: seasonLength,
+            holdout_periods: evaluations.length > 0 ? holdout : 0,
+            backtest_metrics: chosenEvaluation?.metrics
+                ? { mape: round(chosenEvaluation.metrics.mape), rmse: round(chosenEvaluation.metrics.rmse), mae: round(chosenEvaluation.metrics.mae) }
+                : null,
+            model_comparison: evaluations.map(e => e.metrics
+                ? { model: e.model, mape: round(e.metrics.mape), rmse: round(e.metrics.rmse), mae: round(e.metrics.mae) }
+                : { model: e.model, error: e.error }),
+        };
+        const warnings: string[] = [];
+        if (filledPeriods > 0) {
+            warnings.push(`${filledPeriods} of ${series.length} ${frequency} periods had no data and were filled with 0. For a balance-type series, resample it first with resample_time_series and fill_method "ffill".`);
+        }
+        if (evaluations.length === 0) {
+            warnings.push('The series is too short to hold out periods for backtesting, so no accuracy metrics are available.');
+        }
+        if (warnings.length > 0) {
+            resultPayload.warning = warnings.join(' ');
+        }
+
+        return { result: resultPayload, newDataSet };
+    }
+
+    private async resampleTimeSeries(dataset_name: string, date_column: string, value_columns: string[], frequency: 'day' | 'week' | 'month' | 'quarter' | 'year', aggregation: 'sum' | 'mean' | 'min' | 'max' | 'count' | 'first' | 'last' = 'sum', group_by_columns: string[] = [], fiscal_year_start_month: number = 1, fill_method: 'none' | 'zero' | 'ffill' = 'none') {
+        const dataset = this.getDataset(dataset_name);
+        const valueColumns = Array.isArray(value_columns) ? value_columns : [value_columns];
+        const groupColumns = Array.isArray(group_by_columns) ? group_by_columns : [];
+        [date_column, ...valueColumns, ...groupColumns].forEach(column => {
+            if (!dataset.stats.columnNames.includes(column)) {
+                throw new Error(`Column "${column}" was not found in dataset "${dataset_name}".`);
+            }
+        });
+        if (valueColumns.length === 0) {
+            throw new Error('resample_time_series requires at least one value column.');
+        }
+        if (!['day', 'week', 'month', 'quarter', 'year'].includes(frequency)) {
+            throw new Error(`Unsupported frequency: ${frequency}. Use day, week, month, quarter or year.`);
+        }
+        const aggregators: Record<string, (values: number[]) => number | undefined> = {
+            sum: values => d3.sum(values),
+            mean: values => d3.mean(values),
+            min: values => d3.min(values),
+            max: values => d3.max(values),
+            count: values => values.length,
+            first: values => values[0],
+            last: values => values[values.length - 1],
+        };
+        const aggregate = aggregators[aggregation];
+        if (!aggregate) {
+            throw new Error(`Unsupported aggregation function: ${aggregation}. Available functions: ${Object.keys(aggregators).join(', ')}.`);
+        }
+        if (!['none', 'zero', 'ffill'].includes(fill_method)) {
+            throw new Error(`Unsupported fill method: ${fill_method}. Use none, zero or ffill.`);
+        }
+        const fiscalStart = Math.floor(Number(fiscal_year_start_month) || 1);
+        if (fiscalStart < 1 || fiscalStart > 12) {
+            throw new Error(`Invalid fiscal_year_start_month: ${fiscal_year_start_month}. Use a month number from 1 to 12.`);
+        }
+
+        // Weeks start on Monday; quarters and years follow the fiscal calendar, labelled by the year the fiscal year starts in
+        const periodStart = (date: string) => {
+            const month = Number(date.slice(5, 7));
+            const monthsIntoFiscalYear = (month - fiscalStart + 12) % 12;
+            switch (frequency) {
+                case 'day': return date;
+                case 'week': return addDays(date, -((new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7));
+                case 'month': return `${date.slice(0, 7)}-01`;
+                case 'quarter': return addMonths(`${date.slice(0, 7)}-01`, -(monthsIntoFiscalYear % 3));
+                case 'year': return addMonths(`${date.slice(0, 7)}-01`, -monthsIntoFiscalYear);
+            }
+        };
+        const nextPeriodStart = (start: string) => {
+            switch (frequency) {
+                case 'day': return addDays(start, 1);
+                case 'week': return addDays(start, 7);
+                case 'month': return addMonths(start, 1);
+                case 'quarter': return addMonths(start, 3);
+                case 'year': return addMonths(start, 12);
+            }
+        };
+        const periodLabel = (start: string) => {
+            const monthsIntoFiscalYear = (Number(start.slice(5, 7)) - fiscalStart + 12) % 12;
+            const fiscalYear = addMonths(start, -monthsIntoFiscalYear).slice(0, 4);
+            switch (frequency) {
+                case 'day':
+                case 'week': return start;
+                case 'month': return start.slice(0, 7);
+                case 'quarter': return `${fiscalStart === 1 ? fiscalYear : `FY${fiscalYear}`}-Q${Math.floor(monthsIntoFiscalYear / 3) + 1}`;
+                case 'year': return fiscalStart === 1 ? fiscalYear : `FY${fiscalYear}`;
+            }
+        };
+
+        const buckets = new Map<string, { groupValues: CsvRow; periods: Map<string, number[][]> }>();
+        let skippedRows = 0;
+        dataset.data.forEach(row => {
+            const date = String(row[date_column] ?? '').slice(0, 10);
+            if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(`${date}T00:00:00Z`).getTime())) {
+                skippedRows++;
+                return;
+            }
+            const groupValues: CsvRow = Object.fromEntries(groupColumns.map(c => [c, row[c] ?? null]));
+            const groupKey = JSON.stringify(groupColumns.map(c => row[c] ?? null));
+            const bucket = buckets.get(groupKey) ?? { groupValues, periods: new Map<string, number[][]>() };
+            const start = periodStart(date);
+            const values = bucket.periods.get(start) ?? valueColumns.map(() => []);
+            valueColumns.forEach((column, i) => {
+                const value = row[column];
+                if (value !== null && value !== undefined && value !== '' && !isNaN(Number(value))) values[i].push(Number(value));
+            });
+            bucket.periods.set(start, values);
+            buckets.set(groupKey, bucket);
+        });
+        if (buckets.size === 0) {
+            throw new Error(`No valid dates were found in column "${date_column}" of dataset "${dataset_name}".`);
+        }
+
+        // Missing periods are filled over the overall date range so that every group shares the same periods
+        const allStarts = [...buckets.values()].flatMap(b => [...b.periods.keys()]);
+        const firstStart = d3.min(allStarts)!;
+        const lastStart = d3.max(allStarts)!;
+        const fullRange: string[] = [];
+        if (fill_method !== 'none') {
+            for (let start = firstStart; start <= lastStart; start = nextPeriodStart(start)) fullRange.push(start);
+        }
+
+        const resampledRows: CsvRow[] = [];
+        [...buckets.values()].forEach(({ groupValues, periods }) => {
+            const starts = fill_method === 'none' ? [...periods.keys()].sort() : fullRange;
+            const previous: (number | null)[] = valueColumns.map(() => null);
+            starts.forEach(start => {
+                const values = periods.get(start);
+                const row: CsvRow = {
+                    ...groupValues,
+                    period: periodLabel(start),
+                    period_start: start,
+                    period_end: addDays(nextPeriodStart(start), -1),
+                };
+                valueColumns.forEach((column, i) => {
+                    let value: number | null = values && (values[i].length > 0 || aggregation === 'count') ? aggregate(values[i]) ?? null : null;
+                    if (value === null && fill_method === 'zero') value = 0;
+                    if (value === null && fill_method === 'ffill') value = previous[i];
+                    previous[i] = value;
+                    row[column] = value;
+                });
+                resampledRows.push(row);
+            });
+        });
+        resampledRows.sort((a, b) => String(a.period_start).localeCompare(String(b.period_start)) || groupColumns.reduce((order, c) => order || String(a[c] ?? '').localeCompare(String(b[c] ?? '')), 0));
+
+        const resultName = this.saveResult(resampledRows);
+        const newDataSet = this.intermediateData[resultName];
+
+        const resultPayload: Record<string, any> = {
+            new_dataset_name: resultName,
+            rows: resampledRows.length,
+            message: `Resampled "${date_column}" to ${frequency} periods${fiscalStart !== 1 && ['quarter', 'year'].includes(frequency) ? ` (fiscal year starting in month ${fiscalStart})` : ''} and aggregated ${valueColumns.join(', ')} with ${aggregation}${groupColumns.length > 0 ? ` by ${groupColumns.join(', ')}` : ''}.`,
+            columns: newDataSet.stats.columnNames,
+            data_preview: newDataSet.data.slice(0, 5),
+        };
+        if (skippedRows > 0) {
+            resultPayload.warning = `${skippedRows} rows were skipped because "${date_column}" is not a valid YYYY-MM-DD date.`;
+        }
+
+        return { result: resultPayload, newDataSet };
+    }
+
+    private async backtestForecast(dataset_name: string, date_column: string, value_column: string, forecast_periods: number, frequency: 'daily' | 'weekly' | 'monthly' | 'quarterly', folds: number = 5, step_periods?: number, models?: ForecastModel[], seasonal_period?: number) {
+        const dataset = this.getDataset(dataset_name);
+        const horizon = Math.max(1, Math.floor(Number(forecast_periods) || 1));
+        const foldCount = Math.max(1, Math.floor(Number(folds) || 5));
+        const step = Math.max(1, Math.floor(Number(step_periods) || horizon));
+        const candidates = models && models.length > 0 ? models : FORECAST_MODELS;
+        candidates.forEach(model => {
+            if (!FORECAST_MODELS.includes(model)) {
+                throw new Error(`Unsupported forecast model: ${model}. Available models: ${FORECAST_MODELS.join(', ')}.`);
+            }
+        });
+        const seasonLength = Math.max(1, Math.floor(Number(seasonal_period) || DEFAULT_SEASONAL_PERIODS[frequency] || 1));
+        if (!(frequency in DEFAULT_SEASONAL_PERIODS)) {
+            throw new Error(`Unsupported frequency: ${frequency}. Use daily, weekly, monthly or quarterly.`);
+        }
+
+        // Aggregated the same way as forecast_time_series, so that the backtest scores the series it forecasts
+        const { series, filledPeriods } = regularizeSeries(this.buildTimeSeries(dataset, date_column, value_column), frequency);
+        const values = series.map(([, value]) => value);
+        // Rolling origin: the last fold ends with the last observation and earlier origins move back by `step`
+        const origins = d3.range(foldCount)
+            .map(k => values.length - horizon - (foldCount - 1 - k) * step)
+            .filter(origin => origin >= 3);
+        if (origins.length === 0) {
+            throw new Error(`The series has ${values.length} points, which is too short for a ${horizon}-period backtest. At least ${horizon + 3} points are required.`);
+        }
+        const round = (value: number | null) => value === null ? null : parseFloat(value.toFixed(4));
+
+        const foldRows: CsvRow[] = [];
+        // With overlapping folds (step < horizon) the forecast from the latest origin is kept for each date
+        const forecastsByDate = new Map<string, CsvRow>();
+        origins.forEach((origin, index) => {
+            const train = values.slice(0, origin);
+            const actual = values.slice(origin, origin + horizon);
+            candidates.forEach(model => {
+                const foldRow: CsvRow = {
+                    fold: index + 1,
+                    model,
+                    train_end_date: series[origin - 1][0],
+                    test_start_date: series[origin][0],
+                    test_end_date: series[origin + actual.length - 1][0],
+                    train_size: train.length,
+                    mape: null,
+                    rmse: null,
+                    mae: null,
+                    error: null,
+                };
+                try {
+                    const { point } = fitForecastModel(model, train, actual.length, seasonLength);
+                    const metrics = calculateErrorMetrics(actual, point);
+                    foldRow.mape = round(metrics.mape);
+                    foldRow.rmse = round(metrics.rmse);
+                    foldRow.mae = round(metrics.mae);
+                    point.forEach((forecast, i) => {
+                        const date = series[origin + i][0];
+                        const row = forecastsByDate.get(date) ?? { fold: index + 1 };
+                        row.fold = index + 1;
+                        row[`forecast_${model}`] = forecast;
+                        forecastsByDate.set(date, row);
+                    });
+                } catch (e) {
+                    foldRow.error = e instanceof Error ? e.message : String(e);
+                }
+                foldRows.push(foldRow);
+            });
+        });
+
+        const comparisonRows: CsvRow[] = series.map(([date, actual]) => {
+            const forecasts = forecastsByDate.get(date);
+            const row: CsvRow = { [date_column]: date, actual, fold: forecasts?.fold ?? null };
+            candidates.forEach(model => {
+                row[`forecast_${model}`] = forecasts?.[`forecast_${model}`] ?? null;
+            });
+            return row;
+        });
+
+        const runId = d3.max(this.forecastAccuracyLog, r => Number(r.run_id)) ?? 0;
+        const summaryRows: CsvRow[] = candidates.map(model => {
+            const scored = foldRows.filter(r => r.model === model && r.rmse !== null);
+            return {
+                run_id: runId + 1,
+                dataset_name: dataset.name,
+                value_column,
+                frequency,
+                horizon,
+                model,
+                folds: scored.length,
+                mean_mape: scored.some(r => r.mape !== null) ? round(d3.mean(scored, r => r.mape === null ? undefined : Number(r.mape)) ?? null) : null,
+                mean_rmse: scored.length > 0 ? round(d3.mean(scored, r => Number(r.rmse))!) : null,
+                mean_mae: scored.length > 0 ? round(d3.mean(scored, r => Number(r.mae))!) : null,
+            };
+        });
+        const ranked = summaryRows.filter(r => r.mean_rmse !== null).sort((a, b) => Number(a.mean_rmse) - Number(b.mean_rmse));
+        if (ranked.length === 0) {
+            throw new Error('None of the models could be fitted in any fold. Use a longer series or a shorter forecast horizon.');
+        }
+        summaryRows.forEach(r => { r.rank = r.mean_rmse === null ? null : ranked.indexOf(r) + 1; });
+
+        // Earlier runs on the same series stay in the log so that later analyses can compare against them
+        const previousRuns = this.forecastAccuracyLog.filter(r => r.dataset_name === dataset.name && r.value_column === value_column && r.rank === 1);
+        this.forecastAccuracyLog.push(...summaryRows);
+
+        const resultName = this.saveResult(comparisonRows);
+        const newDataSet = this.intermediateData[resultName];
+        const foldsName = this.saveResult(foldRows);
+        const historyName = this.saveResult(this.forecastAccuracyLog.map(r => ({ ...r })));
+        const best = ranked[0];
+
+        const resultPayload: Record<string, any> = {
+            new_dataset_name: resultName,
+            rows: comparisonRows.length,
+            message: `Backtested ${candidates.length} model(s) over ${origins.length} rolling-origin fold(s) of ${horizon} ${frequency} periods. The best model by mean RMSE is ${best.model} (RMSE ${best.mean_rmse}${best.mean_mape !== null ? `, MAPE ${best.mean_mape}%` : ''}). Plot "${date_column}" against "actual" and the forecast_* columns with render_line_chart. Per-fold errors are in "${foldsName}" and the accuracy history of this session is in "${historyName}".`,
+            columns: newDataSet.stats.columnNames,
+            data_preview: newDataSet.data.slice(-5),
+            best_model: best.model,
+            model_summary: summaryRows,
+            fold_errors_dataset_name: foldsName,
+            accuracy_history_dataset_name: historyName,
+            previous_best_models: previousRuns.map(r => ({ run_id: r.run_id, model: r.model, horizon: r.horizon, mean_rmse: r.mean_rmse, mean_mape: r.mean_mape })),
+        };
+        if (filledPeriods > 0) {
+            resultPayload.warning = `${filledPeriods} of ${series.length} ${frequency} periods had no data and were filled with 0. For a balance-type series, resample it first with resample_time_series and fill_method "ffill".`;
+        }
+
+        return { result: resultPayload, newDataSet };
+    }
+
+    private async forecastCashPosition(horizon_days: number = 90, frequency: 'daily' | 'weekly' = 'daily', as_of_date?: string, company_code?: string, currency?: string, interest_payment_frequency: 'monthly' | 'quarterly' | 'semiannual' | 'annual' = 'quarterly', settlement_rule: string = 'due_date') {
+        const horizonDays = Math.max(1, Math.floor(Number(horizon_days) || 90));
+        if (frequency !== 'daily' && frequency !== 'weekly') {
+            throw new Error(`Unsupported frequency: ${frequency}. Available frequencies: daily, weekly.`);
+        }
+        const couponMonths = { monthly: 1, quarterly: 3, semiannual: 6, annual: 12 }[interest_payment_frequency || 'quarterly'];
+        if (!couponMonths) {
+            throw new Error(`Unsupported interest payment frequency: ${interest_payment_frequency}. Available frequencies: monthly, quarterly, semiannual, annual.`);
+        }
+
+        const { asOfDate, settlementNote, positions } = this.buildFxExposurePositions(as_of_date, settlement_rule);
+        const settlement = this.getTradeItemSettlement(settlement_rule);
+        const endDate = addDays(asOfDate, horizonDays);
+        const companyFilter = company_code ? String(company_code) : null;
+        const currencyFilter = currency ? String(currency).toUpperCase() : null;
+        const matchesFilter = (company: string, ccy: string) => (!companyFilter || company === companyFilter) && (!currencyFilter || ccy === currencyFilter);
+
+        // Opening balances from the latest account_balances snapshot
+        const openingBalances = new Map<string, number>();
+        const keyOf = (company: string, ccy: string) => `${company}\u0000${ccy}`;
+        positions.filter(p => p.component === 'cash' && matchesFilter(p.company_code, p.currency)).forEach(p => {
+            const key = keyOf(p.company_code, p.currency);
+            openingBalances.set(key, (openingBalances.get(key) ?? 0) + p.amount);
+        });
+
+        // Items settled by the balance snapshot (under the shared settlement rule) are already reflected in the
+        // opening balances and are skipped. Open items due on or before the as-of date are not in the balances
+        // yet, so they are assumed to settle on the first forecast day.
+        const snapshotDates = this.getDataset(DataType.ACCOUNT_BALANCES).data
+            .map(r => String(r.evaluation_date ?? '').slice(0, 10))
+            .filter(date => date && date <= asOfDate)
+            .sort();
+        const snapshotDate = snapshotDates[snapshotDates.length - 1] ?? asOfDate;
+        const flows: { key: string; date: string; amount: number }[] = [];
+        let rolledItemCount = 0;
+        let skippedItemCount = 0;
+        this.getDataset(DataType.TRADE_ITEMS).data.forEach(row => {
+            const company = String(row.company_code);
+            const ccy = String(row.currency).toUpperCase();
+            const amount = Number(row.amount);
+            let dueDate = String(row.due_date ?? '').slice(0, 10);
+            if (!dueDate || isNaN(amount) || !matchesFilter(company, ccy)) return;
+            if (settlement.isSettled(row, snapshotDate)) {
+                skippedItemCount++;
+                return;
+            }
+            if (dueDate <= asOfDate) {
+                dueDate = addDays(asOfDate, 1);
+                rolledItemCount++;
+            }
+            if (dueDate > endDate) return;
+            const isPayable = String(row.item_type).toUpperCase() === 'AP';
+            flows.push({ key: keyOf(company, ccy), date: dueDate, amount: isPayable ? -Math.abs(amount) : Math.abs(amount) });
+        });
+        this.getDataset(DataType.LOANS).data.forEach(row => {
+            const company = String(row.company_code);
+            const ccy = String(row.currency).toUpperCase();
+            const principal = Math.abs(Number(row.principal_amount));
+            const rate = Number(row.interest_rate) / 100;
+            const startDate = String(row.start_date ?? '').slice(0, 10);
+            const maturityDate = String(row.maturity_date ?? '').slice(0, 10);
+            if (!startDate || !maturityDate || isNaN(principal) || !matchesFilter(company, ccy)) return;
+            if (maturityDate <= asOfDate) return;
+            const key = keyOf(company, ccy);
+            if (maturityDate <= endDate) {
+                flows.push({ key, date: maturityDate, amount: -principal });
+            }
+            if (!isNaN(rate)) {
+                let previous = startDate;
+                this.getCouponDates(startDate, maturityDate, couponMonths).forEach(couponDate => {
+                    if (couponDate > asOfDate && couponDate <= endDate) {
+                        flows.push({ key, date: couponDate, amount: -principal * rate * dayCountFraction(previous, couponDate, 'ACT/365') });
+                    }
+                    previous = couponDate;
+                });
+            }
+        });
+
+        // Period end dates: every day, or every seventh day (the last week may be shorter)
+        const periodEnds: string[] = [];
+        const step = frequency === 'daily' ? 1 : 7;
+        for (let d = step; d < horizonDays + step; d += step) {
+            periodEnds.push(addDays(asOfDate, Math.min(d, horizonDays)));
+        }
+        const periodOf = (date: string) => periodEnds.find(end => date <= end)!;
+
+        const flowsByKey = d3.group(flows, f => f.key, f => periodOf(f.date));
+        const keys = [...new Set([...openingBalances.keys(), ...flowsByKey.keys()])].sort();
+
+        const forecastRows: CsvRow[] = [];
+        const alerts: { company_code: string; currency: string; first_negative_date: string; minimum_balance: number }[] = [];
+        keys.forEach(key => {
+            const [company, ccy] = key.split('\u0000');
+            let balance = openingBalances.get(key) ?? 0;
+            let firstNegativeDate: string | null = null;
+            let minimumBalance = balance;
+            periodEnds.forEach(periodEnd => {
+                const periodFlows = flowsByKey.get(key)?.get(periodEnd) ?? [];
+                const inflows = d3.sum(periodFlows.filter(f => f.amount > 0), f => f.amount);
+                const outflows = d3.sum(periodFlows.filter(f => f.amount < 0), f => f.amount);
+                const openingBalance = balance;
+                balance += inflows + outflows;
+                if (balance < 0 && !firstNegativeDate) firstNegativeDate = periodEnd;
+                minimumBalance = Math.min(minimumBalance, balance);
+                forecastRows.push({
+                    date: periodEnd,
+                    company_code: company,
+                    currency: ccy,
+                    opening_balance: parseFloat(openingBalance.toFixed(2)),
+                    inflows: parseFloat(inflows.toFixed(2)),
+                    outflows: parseFloat(outflows.toFixed(2)),
+                    net_flow: parseFloat((inflows + outflows).toFixed(2)),
+                    closing_balance: parseFloat(balance.toFixed(2)),
+                    balance_status: balance < 0 ? 'NEGATIVE' : 'OK',
+                });
+            });
+            if (firstNegativeDate) {
+                alerts.push({ company_code: company, currency: ccy, first_negative_date: firstNegativeDate, minimum_balance: parseFloat(minimumBalance.toFixed(2)) });
+            }
+        });
+
+        if (forecastRows.length === 0) {
+            throw new Error(`No balances or cash flows were found for company "${companyFilter ?? 'all'}" and currency "${currencyFilter ?? 'all'}".`);
+        }
+
+        const resultName = this.saveResult(forecastRows);
+        const newDataSet = this.intermediateData[resultName];
+
+        const resultPayload: Record<string, any> = {
+            new_dataset_name: resultName,
+            rows: forecastRows.length,
+            message: `${asOfDate}時点の口座残高を起点に、売掛金・買掛金の期日、借入金の満期返済、利払い（${interest_payment_frequency}）を反映した${horizonDays}日間の${frequency === 'daily' ? '日次' : '週次'}資金繰り予測を作成しました（会社・通貨の組み合わせ: ${keys.length}件）。${settlementNote}`,
+            columns: newDataSet.stats.columnNames,
+            data_preview: newDataSet.data.slice(0, 5),
+            negative_balance_alerts: alerts,
+            overdue_trade_items: { balance_snapshot_date: snapshotDate, rolled_forward: rolledItemCount, skipped_as_settled: skippedItemCount },
+        };
+        const warnings: string[] = [];
+        if (alerts.length > 0) {
+            warnings.push(`${alerts.length}件の会社・通貨で予測残高がマイナスになります: ${alerts.map(a => `${a.company_code}/${a.currency} (${a.first_negative_date}〜)`).join(', ')}`);
+        }
+        if (rolledItemCount > 0) {
+            warnings.push(`期日を過ぎた売掛金・買掛金${rolledItemCount}件は、予測初日に決済されるものとして計上しています。`);
+        }
+        if (skippedItemCount > 0) {
+            warnings.push(`残高基準日（${snapshotDate}）時点で決済済みの売掛金・買掛金${skippedItemCount}件は、残高に反映されているものとして除外しました。`);
+        }
+        if (warnings.length > 0) {
+            resultPayload.warning = warnings.join(' ');
+        }
+
+        return { result: resultPayload, newDataSet };
+    }
+
+    private async generateLoanSchedule(amortization_type: 'bullet' | 'straight_line' | 'annuity' = 'bullet', day_count: 'ACT/360' | 'ACT/365' | '30/360' = 'ACT/365', payment_frequency: 'monthly' | 'quarterly' | 'semiannual' | 'annual' = 'quarterly', contract_ids?: string[], from_date?: string, to_date?: string) {
+        const amortizationType = amortization_type || 'bullet';
+        if (!['bullet', 'straight_line', 'annuity'].includes(amortizationType)) {
+            throw new Error(`Unsupported amortization type: ${amortization_type}. Available types: bullet, straight_line, annuity.`);
+        }
+        const dayCount = day_count || 'ACT/365';
+        dayCountFraction('2000-01-01', '2000-01-01', dayCount); // Validates the convention up front
+        const monthsPerPeriod = { monthly: 1, quarterly: 3, semiannual: 6, annual: 12 }[payment_frequency || 'quarterly'];
+        if (!monthsPerPeriod) {
+            throw new Error(`Unsupported payment frequency: ${payment_frequency}. Available frequencies: monthly, quarterly, semiannual, annual.`);
+        }
+        const fromDate = from_date ? String(from_date).slice(0, 10) : null;
+        const toDate = to_date ? String(to_date).slice(0, 10) : null;
+        const contractFilter = Array.isArray(contract_ids) && contract_ids.length > 0 ? new Set(contract_ids.map(String)) : null;
+
+        const loans = this.getDataset(DataType.LOANS).data.filter(row => !contractFilter || contractFilter.has(String(row.contract_id)));
+        if (loans.length === 0) {
+            throw new Error(`No loans matched the contract IDs [${(contract_ids ?? []).join(', ')}].`);
+        }
+
+        const scheduleRows: CsvRow[] = [];
+        const skippedContracts: string[] = [];
+        loans.forEach(loan => {
+            const principal = Math.abs(Number(loan.principal_amount));
+            const annualRate = Number(loan.interest_rate) / 100;
+            const startDate = String(loan.start_date ?? '').slice(0, 10);
+            const maturityDate = String(loan.maturity_date ?? '').slice(0, 10);
+            if (isNaN(principal) || isNaN(annualRate) || !startDate || !maturityDate || maturityDate <= startDate) {
+                skippedContracts.push(String(loan.contract_id));
+                return;
+            }
+
+            const paymentDates = this.getCouponDates(startDate, maturityDate, monthsPerPeriod);
+            const periodCount = paymentDates.length;
+            const periodicRate = annualRate * monthsPerPeriod / 12;
+            const annuityPayment = periodicRate > 0
+                ? principal * periodicRate / (1 - Math.pow(1 + periodicRate, -periodCount))
+                : principal / periodCount;
+
+            let balance = principal;
+            let periodStart = startDate;
+            paymentDates.forEach((paymentDate, index) => {
+                const isLast = index === periodCount - 1;
+                const interest = balance * annualRate * dayCountFraction(periodStart, paymentDate, dayCount);
+                let principalPayment: number;
+                switch (amortizationType) {
+                    case 'straight_line':
+                        principalPayment = principal / periodCount;
+                        break;
+                    case 'annuity':
+                        principalPayment = Math.max(0, annuityPayment - interest);
+                        break;
+                    default:
+                        principalPayment = 0;
+                }
+                if (isLast || principalPayment > balance) principalPayment = balance;
+                const openingBalance = balance;
+                balance -= principalPayment;
+
+                if ((!fromDate || paymentDate >= fromDate) && (!toDate || paymentDate <= toDate)) {
+                    scheduleRows.push({
+                        contract_id: loan.contract_id,
+                        company_code: loan.company_code,
+                        lender: loan.lender,
+                        currency: loan.currency,
+                        interest_rate_type: loan.interest_rate_type,
+                        interest_rate: loan.interest_rate,
+                        period: index + 1,
+                        period_start: periodStart,
+                        payment_date: paymentDate,
+                        payment_year: paymentDate.slice(0, 4),
+                        days: daysBetween(periodStart, paymentDate),
+                        opening_balance: parseFloat(openingBalance.toFixed(2)),
+                        interest: parseFloat(interest.toFixed(2)),
+                        principal_payment: parseFloat(principalPayment.toFixed(2)),
+                        total_payment: parseFloat((interest + principalPayment).toFixed(2)),
+                        closing_balance: parseFloat(balance.toFixed(2)),
+                    });
+                }
+                periodStart = paymentDate;
+            });
+        });
+
+        const resultName = this.saveResult(scheduleRows);
+        const newDataSet = this.intermediateData[resultName];
+
+        const interestByCurrency = d3.rollups(scheduleRows, v => parseFloat(d3.sum(v, r => Number(r.interest)).toFixed(2)), r => String(r.currency))
+            .map(([currency, total_interest]) => ({ currency, total_interest }));
+        const resultPayload: Record<string, any> = {
+            new_dataset_name: resultName,
+            rows: scheduleRows.length,
+            message: `${loans.length - skippedContracts.length}件の借入契約について、${amortizationType}方式・${dayCount}・${payment_frequency || 'quarterly'}払いの返済・利息スケジュールを作成しました${fromDate || toDate ? `（支払日: ${fromDate ?? '開始'}〜${toDate ?? '満期'}）` : ''}。変動金利の契約は現在の金利が満期まで継続すると仮定しています。`,
+            columns: newDataSet.stats.columnNames,
+            data_preview: newDataSet.data.slice(0, 5),
+            interest_by_currency: interestByCurrency,
+        };
+        if (skippedContracts.length > 0) {
+            resultPayload.warning = `元本・金利・日付が不正なため、次の契約はスケジュールを作成できませんでした: ${skippedContracts.join(', ')}`;
+        } else if (scheduleRows.length === 0) {
+            resultPayload.warning = '指定された期間に支払日がありませんでした。from_date/to_dateを確認してください。';
+        }
+
+        return { result: resultPayload, newDataSet };
+    }
+
+    private async calculateInterestRateScenario(parallel_shift_bp: number = 0, currency_shifts: { currency: string; shift_bp: number }[] = [], reporting_currency: string = 'USD', as_of_date?: string, floor_at_zero: boolean = true) {
+        const parallelShift = Number(parallel_shift_bp) || 0;
+        const currencyShifts = new Map<string, number>();
+        (Array.isArray(currency_shifts) ? currency_shifts : []).forEach(shift => {
+            const value = Number(shift.shift_bp);
+            if (!isFinite(value)) {
+                throw new Error(`Shift for "${shift.currency}" must be a number of basis points, but got "${shift.shift_bp}".`);
+            }
+            currencyShifts.set(String(shift.currency).toUpperCase(), value);
+        });
+        if (parallelShift === 0 && currencyShifts.size === 0) {
+            throw new Error('calculate_interest_rate_scenario requires a parallel_shift_bp or at least one currency_shifts entry.');
+        }
+        const reportingCurrency = String(reporting_currency || 'USD').toUpperCase();
+        const { rateDate, rates } = this.getFxRatesAsOf(as_of_date);
+        const asOfDate = as_of_date ? String(as_of_date).slice(0, 10) : rateDate;
+
+        // Per-currency shifts replace the parallel shift for that currency.
+        const shiftFor = (currency: string) => currencyShifts.get(currency) ?? parallelShift;
+        const outstandingLoans = this.getDataset(DataType.LOANS).data.filter(row => {
+            const startDate = String(row.start_date ?? '').slice(0, 10);
+            const maturityDate = String(row.maturity_date ?? '').slice(0, 10);
+            return (!startDate || startDate <= asOfDate) && (!maturityDate || maturityDate > asOfDate) && !isNaN(Number(row.principal_amount)) && !isNaN(Number(row.interest_rate));
+        });
+
+        const grouped = d3.group(outstandingLoans, r => String(r.company_code), r => String(r.lender), r => String(r.currency).toUpperCase());
+        const scenarioRows: CsvRow[] = [];
+        const missingCurrencies = new Set<string>();
+        grouped.forEach((byLender, companyCode) => {
+            byLender.forEach((byCurrency, lender) => {
+                byCurrency.forEach((loans, currency) => {
+                    let principal = 0, floatingPrincipal = 0, baseInterest = 0, scenarioInterest = 0;
+                    loans.forEach(loan => {
+                        const amount = Math.abs(Number(loan.principal_amount));
+                        const baseRate = Number(loan.interest_rate);
+                        const isFloating = String(loan.interest_rate_type).toLowerCase() === 'floating';
+                        let scenarioRate = isFloating ? baseRate + shiftFor(currency) / 100 : baseRate;
+                        if (floor_at_zero !== false) scenarioRate = Math.max(0, scenarioRate);
+                        principal += amount;
+                        if (isFloating) floatingPrincipal += amount;
+                        baseInterest += amount * baseRate / 100;
+                        scenarioInterest += amount * scenarioRate / 100;
+                    });
+                    const fxRate = this.getCrossRate(rates, currency, reportingCurrency);
+                    if (fxRate === null) missingCurrencies.add(currency);
+                    const delta = scenarioInterest - baseInterest;
+                    scenarioRows.push({
+                        company_code: companyCode,
+                        lender,
+                        currency,
+                        principal: parseFloat(principal.toFixed(2)),
+                        floating_principal: parseFloat(floatingPrincipal.toFixed(2)),
+                        shift_bp: floatingPrincipal > 0 ? shiftFor(currency) : 0,
+                        base_annual_interest: parseFloat(baseInterest.toFixed(2)),
+                        scenario_annual_interest: parseFloat(scenarioInterest.toFixed(2)),
+                        interest_delta: parseFloat(delta.toFixed(2)),
+                        reporting_currency: reportingCurrency,
+                        interest_delta_reporting: fxRate === null ? null : parseFloat((delta * fxRate).toFixed(2)),
+                    });
+                });
+            });
+        });
+        if (scenarioRows.length === 0) {
+            throw new Error(`No outstanding loans were found as of ${asOfDate}.`);
+        }
+        scenarioRows.sort((a, b) => String(a.company_code).localeCompare(String(b.company_code)) || String(a.lender).localeCompare(String(b.lender)) || String(a.currency).localeCompare(String(b.currency)));
+
+        // Currency-level delta in the reporting currency, ready for a waterfall chart
+        const currencySummary: CsvRow[] = d3.rollups(scenarioRows, v => d3.sum(v, r => Number(r.interest_delta_reporting ?? 0)), r => String(r.currency))
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([currency, delta]) => ({ currency, interest_delta_reporting: parseFloat(delta.toFixed(2)), reporting_currency: reportingCurrency }));
+
+        const resultName = this.saveResult(scenarioRows);
+        const newDataSet = this.intermediateData[resultName];
+        const summaryName = this.saveResult(currencySummary);
+        const totalDelta = d3.sum(currencySummary, r => Number(r.interest_delta_reporting));
+
+        const shiftDescription = [
+            parallelShift !== 0 ? `全通貨${parallelShift > 0 ? '+' : ''}${parallelShift}bp` : null,
+            ...[...currencyShifts.entries()].map(([c, bp]) => `${c} ${bp > 0 ? '+' : ''}${bp}bp`),
+        ].filter(Boolean).join(', ');
+        const resultPayload: Record<string, any> = {
+            new_dataset_name: resultName,
+            rows: scenarioRows.length,
+            message: `${asOfDate}時点の借入残高について、変動金利契約のみに金利シフト（${shiftDescription}）を適用し、年間支払利息の増減を会社・金融機関・通貨別に算出しました。合計影響額は${parseFloat(totalDelta.toFixed(2))} ${reportingCurrency}です。通貨別の影響額は "${summaryName}" に保存しました（render_waterfall_chartで可視化できます）。`,
+            columns: newDataSet.stats.columnNames,
+            data_preview: newDataSet.data.slice(0, 5),
+            currency_summary_dataset_name: summaryName,
+            currency_summary: currencySummary,
+        };
+        if (missingCurrencies.size > 0) {
+            resultPayload.warning = `次の通貨は為替レートがないため、報告通貨建ての影響額がnullになっています: ${[...missingCurrencies].sort().join(', ')}`;
+        }
+
+        return { result: resultPayload, newDataSet };
+    }
+
+    private async analyzeDebtMaturity(bucket: 'year' | 'quarter' = 'year', reporting_currency: string = 'USD', as_of_date?: string, concentration_threshold_pct: number = 25) {
+        if (bucket && bucket !== 'year' && bucket !== 'quarter') {
+            throw new Error(`Unsupported bucket: ${bucket}. Available buckets: year, quarter.`);
+        }
+        const reportingCurrency = String(reporting_currency || 'USD').toUpperCase();
+        const threshold = Number(concentration_threshold_pct) || 25;
+        const { rateDate, rates } = this.getFxRatesAsOf(as_of_date);
+        const asOfDate = as_of_date ? String(as_of_date).slice(0, 10) : rateDate;
+
+        const missingCurrencies = new Set<string>();
+        const debts = this.getDataset(DataType.LOANS).data.flatMap(row => {
+            const startDate = String(row.start_date ?? '').slice(0, 10);
+            const maturityDate = String(row.maturity_date ?? '').slice(0, 10);
+            const principal = Math.abs(Number(row.principal_amount));
+            const currency = String(row.currency).toUpperCase();
+            if (!maturityDate || maturityDate <= asOfDate || (startDate && startDate > asOfDate) || isNaN(principal)) return [];
+            const fxRate = this.getCrossRate(rates, currency, reportingCurrency);
+            if (fxRate === null) {
+                missingCurrencies.add(currency);
+                return [];
+            }
+            const month = Number(maturityDate.slice(5, 7));
+            return [{
+                company_code: String(row.company_code),
+                lender: String(row.lender),
+                maturityBucket: bucket === 'quarter' ? `${maturityDate.slice(0, 4)}-Q${Math.ceil(month / 3)}` : maturityDate.slice(0, 4),
+                principal: principal * fxRate,
+                years: daysBetween(asOfDate, maturityDate) / 365.25,
+                rate: Number(row.interest_rate),
+            }];
+        });
+        if (debts.length === 0) {
+            throw new Error(`No outstanding loans with a convertible currency were found as of ${asOfDate}.`);
+        }
+        const totalPrincipal = d3.sum(debts, d => d.principal);
+        const sharePct = (value: number) => parseFloat((value / totalPrincipal * 100).toFixed(2));
+        const weightedAverage = (items: typeof debts, accessor: (d: typeof debts[number]) => number) => {
+            const valid = items.filter(d => !isNaN(accessor(d)));
+            const weight = d3.sum(valid, d => d.principal);
+            return weight > 0 ? d3.sum(valid, d => accessor(d) * d.principal) / weight : null;
+        };
+
+        const ladderRows: CsvRow[] = d3.rollups(debts, v => ({ principal: d3.sum(v, d => d.principal), count: v.length }), d => d.maturityBucket)
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([maturityBucket, { principal, count }]) => ({
+                maturity_bucket: maturityBucket,
+                principal_reporting: parseFloat(principal.toFixed(2)),
+                share_pct: sharePct(principal),
+                contract_count: count,
+                reporting_currency: reportingCurrency,
+            }));
+
+        const kpiRows: CsvRow[] = [];
+        const groupings: ['company' | 'lender', (d: typeof debts[number]) => string][] = [['company', d => d.company_code], ['lender', d => d.lender]];
+        groupings.forEach(([groupType, key]) => {
+            d3.groups(debts, key).sort(([a], [b]) => a.localeCompare(b)).forEach(([group, items]) => {
+                const principal = d3.sum(items, d => d.principal);
+                const wam = weightedAverage(items, d => d.years);
+                const wacd = weightedAverage(items, d => d.rate);
+                kpiRows.push({
+                    group_type: groupType,
+                    group_name: group,
+                    principal_reporting: parseFloat(principal.toFixed(2)),
+                    share_pct: sharePct(principal),
+                    weighted_avg_maturity_years: wam === null ? null : parseFloat(wam.toFixed(2)),
+                    weighted_avg_cost_pct: wacd === null ? null : parseFloat(wacd.toFixed(3)),
+                    contract_count: items.length,
+                });
+            });
+        });
+        const groupWam = weightedAverage(debts, d => d.years);
+        const groupWacd = weightedAverage(debts, d => d.rate);
+        kpiRows.push({
+            group_type: 'total',
+            group_name: 'TOTAL',
+            principal_reporting: parseFloat(totalPrincipal.toFixed(2)),
+            share_pct: 100,
+            weighted_avg_maturity_years: groupWam === null ? null : parseFloat(groupWam.toFixed(2)),
+            weighted_avg_cost_pct: groupWacd === null ? null : parseFloat(groupWacd.toFixed(3)),
+            contract_count: debts.length,
+        });
+
+        const concentrationFlags = [
+            ...ladderRows.filter(r => Number(r.share_pct) > threshold).map(r => ({ type: 'maturity_bucket', name: String(r.maturity_bucket), share_pct: Number(r.share_pct) })),
+            ...kpiRows.filter(r => r.group_type === 'lender' && Number(r.share_pct) > threshold).map(r => ({ type: 'lender', name: String(r.group_name), share_pct: Number(r.share_pct) })),
+        ];
+
+        const resultName = this.saveResult(ladderRows);
+        const newDataSet = this.intermediateData[resultName];
+        const kpiName = this.saveResult(kpiRows);
+
+        const resultPayload: Record<string, any> = {
+            new_dataset_name: resultName,
+            rows: ladderRows.length,
+            message: `${asOfDate}時点の借入金残高（${reportingCurrency}換算、${rateDate}のレート）を満期${bucket === 'quarter' ? '四半期' : '年'}別に集計しました。グループ全体の加重平均残存期間は${groupWam?.toFixed(2)}年、加重平均調達金利は${groupWacd?.toFixed(3)}%です。会社別・金融機関別のKPIは "${kpiName}" に保存しました。`,
+            columns: newDataSet.stats.columnNames,
+            data_preview: newDataSet.data.slice(0, 5),
+            kpi_dataset_name: kpiName,
+            concentration_threshold_pct: threshold,
+            concentration_flags: concentrationFlags,
+        };
+        const warnings: string[] = [];
+        if (concentrationFlags.length > 0) {
+            warnings.push(`借入残高の${threshold}%超が集中している項目があります: ${concentrationFlags.map(f => `${f.name} (${f.share_pct}%)`).join(', ')}`);
+        }
+        if (missingCurrencies.size > 0) {
+            warnings.push(`次の通貨は為替レートがないため集計から除外されました: ${[...missingCurrencies].sort().join(', ')}`);
+        }
+        if (warnings.length > 0) {
+            resultPayload.warning = warnings.join(' ');
+        }
+
+        return { result: resultPayload, newDataSet };
+    }
+
+    private async analyzeTradeAging(as_of_date?: string, group_by_columns: string[] = ['company_code', 'item_type', 'currency'], reporting_currency: string = 'USD', lookback_days: number = 90, settlement_rule: string = 'due_date') {
+        const reportingCurrency = String(reporting_currency || 'USD').toUpperCase();
+        const groupByCols = Array.isArray(group_by_columns) && group_by_columns.length > 0 ? group_by_columns : ['company_code', 'item_type', 'currency'];
+        const allowedColumns = ['company_code', 'counterparty', 'currency', 'item_type'];
+        const invalidColumns = groupByCols.filter(c => !allowedColumns.includes(c));
+        if (invalidColumns.length > 0) {
+            throw new Error(`Column "${invalidColumns.join(', ')}" does not exist for aging. Available columns: ${allowedColumns.join(', ')}.`);
+        }
+        const lookbackDays = Math.max(1, Math.floor(Number(lookback_days) || 90));
+
+        const evaluationDates = this.getDataset(DataType.ACCOUNT_BALANCES).data.map(r => String(r.evaluation_date ?? '').slice(0, 10)).filter(Boolean).sort();
+        const asOfDate = as_of_date ? String(as_of_date).slice(0, 10) : evaluationDates[evaluationDates.length - 1];
+        if (!asOfDate) {
+            throw new Error('An as-of date could not be determined; please provide as_of_date.');
+        }
+        const { rateDate, rates } = this.getFxRatesAsOf(asOfDate);
+        if (!rates.has(reportingCurrency)) {
+            throw new Error(`Reporting currency "${reportingCurrency}" cannot be derived from the fx_rates dataset.`);
+        }
+
+        const buckets = ['current', 'days_1_30', 'days_31_60', 'days_61_90', 'days_over_90'] as const;
+        const bucketOf = (daysOverdue: number) => daysOverdue <= 0 ? 'current' : daysOverdue <= 30 ? 'days_1_30' : daysOverdue <= 60 ? 'days_31_60' : daysOverdue <= 90 ? 'days_61_90' : 'days_over_90';
+
+        // Only items open on the as-of date are aged, under the same settlement rule as the exposure tools
+        const settlement = this.getTradeItemSettlement(settlement_rule);
+        const missingCurrencies = new Set<string>();
+        const items = this.getDataset(DataType.TRADE_ITEMS).data.flatMap(row => {
+            const dueDate = String(row.due_date ?? '').slice(0, 10);
+            const amount = Math.abs(Number(row.amount));
+            const currency = String(row.currency).toUpperCase();
+            if (!dueDate || isNaN(amount) || !settlement.isOpen(row, asOfDate)) return [];
+            const fxRate = this.getCrossRate(rates, currency, reportingCurrency);
+            if (fxRate === null) {
+                missingCurrencies.add(currency);
+                return [];
+            }
+            const daysOverdue = daysBetween(dueDate, asOfDate);
+            return [{ row: { ...row, currency, item_type: String(row.item_type).toUpperCase() }, amount: amount * fxRate, daysOverdue, bucket: bucketOf(daysOverdue) }];
+        });
+        if (items.length === 0) {
+            throw new Error(`No trade items were open on ${asOfDate}.${settlement.hasSettlementData ? '' : ' Without a settlement_date or status column, items are treated as settled on their due date; use settlement_rule "none" to age every issued item.'}`);
+        }
+
+        const round = (value: number) => parseFloat(value.toFixed(2));
+        const groups = d3.groups(items, i => JSON.stringify(groupByCols.map(c => i.row[c])));
+        const agingRows: CsvRow[] = groups
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([, groupItems]) => {
+                const resultRow: CsvRow = {};
+                groupByCols.forEach(c => resultRow[c] = groupItems[0].row[c]);
+                buckets.forEach(b => resultRow[b] = round(d3.sum(groupItems.filter(i => i.bucket === b), i => i.amount)));
+                const total = d3.sum(groupItems, i => i.amount);
+                const overdue = d3.sum(groupItems.filter(i => i.daysOverdue > 0), i => i.amount);
+                resultRow.total = round(total);
+                resultRow.overdue_total = round(overdue);
+                resultRow.overdue_pct = total > 0 ? round(overdue / total * 100) : 0;
+                resultRow.weighted_avg_days_overdue = total > 0 ? round(d3.sum(groupItems, i => Math.max(0, i.daysOverdue) * i.amount) / total) : 0;
+                resultRow.item_count = groupItems.length;
+                resultRow.reporting_currency = reportingCurrency;
+                return resultRow;
+            });
+
+        // Bucket totals by item type, one row per bucket so that a bar chart can use it directly
+        const bucketRows: CsvRow[] = buckets.map(b => ({
+            aging_bucket: b,
+            ar_amount: round(d3.sum(items.filter(i => i.bucket === b && i.row.item_type === 'AR'), i => i.amount)),
+            ap_amount: round(d3.sum(items.filter(i => i.bucket === b && i.row.item_type === 'AP'), i => i.amount)),
+            reporting_currency: reportingCurrency,
+        }));
+
+        // DSO/DPO per company: open balance / trailing collections (or payments) × days, using transactions volumes
+        const directory = this.getAccountDirectory();
+        const windowStart = addDays(asOfDate, -lookbackDays);
+        const volumes = new Map<string, { receipts: number; payments: number }>();
+        this.getDataset(DataType.TRANSACTIONS).data.forEach(row => {
+            const date = String(row.transaction_date ?? '').slice(0, 10);
+            const category = String(row.category ?? '').toUpperCase();
+            if (!date || date <= windowStart || date > asOfDate || (category !== 'AR_RECEIPT' && category !== 'AP_PAYMENT')) return;
+            const account = directory.get(String(row.account_id));
+            const fxRate = this.getCrossRate(rates, String(row.currency).toUpperCase(), reportingCurrency);
+            if (!account || fxRate === null || isNaN(Number(row.amount))) return;
+            const volume = volumes.get(account.company_code) ?? { receipts: 0, payments: 0 };
+            if (category === 'AR_RECEIPT') volume.receipts += Math.abs(Number(row.amount)) * fxRate;
+            else volume.payments += Math.abs(Number(row.amount)) * fxRate;
+            volumes.set(account.company_code, volume);
+        });
+        const metricRows: CsvRow[] = d3.groups(items, i => String(i.row.company_code))
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([companyCode, companyItems]) => {
+                const receivables = d3.sum(companyItems.filter(i => i.row.item_type === 'AR'), i => i.amount);
+                const payables = d3.sum(companyItems.filter(i => i.row.item_type === 'AP'), i => i.amount);
+                const volume = volumes.get(companyCode);
+                return {
+                    company_code: companyCode,
+                    receivables: round(receivables),
+                    ar_receipts: volume ? round(volume.receipts) : null,
+                    dso_days: volume && volume.receipts > 0 ? round(receivables / volume.receipts * lookbackDays) : null,
+                    payables: round(payables),
+                    ap_payments: volume ? round(volume.payments) : null,
+                    dpo_days: volume && volume.payments > 0 ? round(payables / volume.payments * lookbackDays) : null,
+                    reporting_currency: reportingCurrency,
+                };
+            });
+
+        const resultName = this.saveResult(agingRows);
+        const newDataSet = this.intermediateData[resultName];
+        const bucketName = this.saveResult(bucketRows);
+        const metricName = this.saveResult(metricRows);
+
+        const resultPayload: Record<string, any> = {
+            new_dataset_name: resultName,
+            rows: agingRows.length,
+            message: `${asOfDate}時点の売掛金・買掛金を期日経過日数で区分（current, 1-30, 31-60, 61-90, 90日超）し、${groupByCols.join(', ')}別に集計しました（${reportingCurrency}換算、${rateDate}のレート）。区分別合計は "${bucketName}"、会社別のDSO/DPO（直近${lookbackDays}日間の入出金実績に基づく）は "${metricName}" に保存しました。${settlement.note}`,
+            columns: newDataSet.stats.columnNames,
+            data_preview: newDataSet.data.slice(0, 5),
+            bucket_summary_dataset_name: bucketName,
+            bucket_summary: bucketRows,
+            dso_dpo_dataset_name: metricName,
+            dso_dpo_preview: metricRows.slice(0, 5),
+        };
+        const warnings: string[] = [];
+        if (!settlement.hasSettlementData) {
+            warnings.push(settlement.rule === 'due_date'
+                ? '`trade_items`に決済日・ステータス列がないため、期日到来済みの債権・債務は決済済みとみなしました。期日経過の区分は空になり、延滞状況は評価できません。settlement_rule: "none"を指定すると発行済みの全件を未決済として区分できますが、決済済みのものも延滞として計上されます。'
+                : '`trade_items`に決済日・ステータス列がないため、発行済みの全件を未決済として区分しました。決済済みの債権・債務も期日経過の区分に含まれるため、延滞額は過大に表示されています。');
+        }
+        const companiesWithoutVolume = metricRows.filter(r => r.dso_days === null && r.dpo_days === null).map(r => String(r.company_code));
+        if (companiesWithoutVolume.length > 0) {
+            warnings.push(`次の会社は直近${lookbackDays}日間の入出金実績がないため、DSO/DPOを算出できませんでした: ${companiesWithoutVolume.join(', ')}`);
+        }
+        if (missingCurrencies.size > 0) {
+            warnings.push(`次の通貨は為替レートがないため集計から除外されました: ${[...missingCurrencies].sort().join(', ')}`);
+        }
+        if (warnings.length > 0) {
+            resultPayload.warning = warnings.join(' ');
+        }
+
+        return { result: resultPayload, newDataSet };
+    }
+
+    private async computeFxExposure(reporting_currency: string = 'USD', as_of_date?: string, rate_date?: string, settlement_rule: string = 'due_date') {
+        const reportingCurrency = String(reporting_currency || 'USD').toUpperCase();
+        const { asOfDate, balanceSnapshotDate, settlementNote, positions } = this.buildFxExposurePositions(as_of_date, settlement_rule);
+        const { rateDate, rates } = this.getFxRatesAsOf(rate_date || asOfDate);
+        if (!rates.has(reportingCurrency)) {
+            throw new Error(`Reporting currency "${reportingCurrency}" cannot be derived from the fx_rates dataset.`);
+        }
+
+        const grouped = d3.group(positions, p => p.company_code, p => p.currency);
+        const round = (value: number | null) => value === null ? null : parseFloat(value.toFixed(2));
+        const missingCurrencies = new Set<string>();
+        const exposureRows: CsvRow[] = [];
+
+        [...grouped.keys()].sort().forEach(companyCode => {
+            const byCurrency = grouped.get(companyCode)!;
+            [...byCurrency.keys()].sort().forEach(currency => {
+                const items = byCurrency.get(currency)!;
+                const componentSum = (component: string) => d3.sum(items.filter(p => p.component === component), p => p.amount);
+                const netExposure = d3.sum(items, p => p.amount);
+                // Units of the reporting currency per one unit of the position currency
+                const fxRate = this.getCrossRate(rates, currency, reportingCurrency);
+                if (fxRate === null) missingCurrencies.add(currency);
+                exposureRows.push({
+                    company_code: companyCode,
+                    currency,
+                    cash: round(componentSum('cash')),
+                    receivables: round(componentSum('receivables')),
+                    payables: round(componentSum('payables')),
+                    debt: round(componentSum('debt')),
+                    net_exposure: round(netExposure),
+                    reporting_currency: reportingCurrency,
+                    fx_rate: fxRate === null ? null : parseFloat(fxRate.toFixed(6)),
+                    net_exposure_reporting: fxRate === null ? null : round(netExposure * fxRate),
+                });
+            });
+        });
+
+        const resultName = this.saveResult(exposureRows);
+        const newDataSet = this.intermediateData[resultName];
+
+        const resultPayload: Record<string, any> = {
+            new_dataset_name: resultName,
+            rows: exposureRows.length,
+            message: `${asOfDate}時点の会社・通貨別ネット為替エクスポージャー（現預金＋売掛金−買掛金−借入金）を算出し、${rateDate}のレートで${reportingCurrency}に換算しました。${settlementNote}`,
+            columns: newDataSet.stats.columnNames,
+            data_preview: newDataSet.data.slice(0, 5),
+            balance_snapshot_date: balanceSnapshotDate,
+            missing_rate_currencies: [...missingCurrencies].sort(),
+        };
+        const warnings: string[] = [];
+        if (!balanceSnapshotDate) {
+            warnings.push(`${asOfDate}以前の\`account_balances\`の残高スナップショットがないため、現預金(cash)は0として扱われ、ネットエクスポージャーは売掛金・買掛金・借入金のみで構成されています。基準日をスナップショットの評価日以降にしてください。`);
+        }
+        if (missingCurrencies.size > 0) {
+            warnings.push(`次の通貨は${rateDate}時点の為替レートがないため、換算後の金額(net_exposure_reporting)がnullになっています: ${[...missingCurrencies].sort().join(', ')}`);
+        }
+        if (warnings.length > 0) {
+            resultPayload.warning = warnings.join(' ');
+        }
+
+        return { result: resultPayload, newDataSet };
+    }
+
+    private async analyzeConcentrationRisk(limits: { exposure_type: string; name?: string; limit: number }[] = [], reporting_currency: string = 'USD', as_of_date?: string, bank_mapping: { account_id?: string; company_code?: string; bank: string }[] = [], settlement_rule: string = 'due_date') {
+        const reportingCurrency = String(reporting_currency || 'USD').toUpperCase();
+        const exposureTypes = ['bank', 'lender', 'counterparty'];
+        const limitList = Array.isArray(limits) ? limits : [];
+        limitList.forEach(l => {
+            if (!exposureTypes.includes(l.exposure_type)) {
+                throw new Error(`Unsupported exposure type: ${l.exposure_type}. Available types: ${exposureTypes.join(', ')}.`);
+            }
+        });
+
+        const { asOfDate, settlementNote } = this.buildFxExposurePositions(as_of_date, settlement_rule);
+        const settlement = this.getTradeItemSettlement(settlement_rule);
+        const { rateDate, rates } = this.getFxRatesAsOf(asOfDate);
+        if (!rates.has(reportingCurrency)) {
+            throw new Error(`Reporting currency "${reportingCurrency}" cannot be derived from the fx_rates dataset.`);
+        }
+        const missingCurrencies = new Set<string>();
+        const toReporting = (amount: number, currency: string) => {
+            const fxRate = this.getCrossRate(rates, String(currency).toUpperCase(), reportingCurrency);
+            if (fxRate === null) {
+                missingCurrencies.add(String(currency).toUpperCase());
+                return 0;
+            }
+            return amount * fxRate;
+        };
+
+        // Resolve the bank of each account: a bank column if the dataset has one, then the supplied mapping
+        // (exact account IDs, prefixes ending with "*", or company codes). Without either, accounts are grouped
+        // by their account ID prefix (ACCT-JP-001 -> ACCT-JP) so that one bank is not split into one entity per account.
+        const mappings = (Array.isArray(bank_mapping) ? bank_mapping : []).map(m => ({
+            pattern: m.account_id ? String(m.account_id) : null,
+            companyCode: m.company_code ? String(m.company_code) : null,
+            bank: String(m.bank),
+        }));
+        const prefixGroups = new Map<string, Set<string>>();
+        const bankOf = (row: CsvRow) => {
+            const bankColumn = row.bank ?? row.bank_name;
+            if (bankColumn !== null && bankColumn !== undefined && bankColumn !== '') return String(bankColumn);
+            const accountId = String(row.account_id);
+            const accountMapping = mappings.find(m => m.pattern !== null && (m.pattern.endsWith('*') ? accountId.startsWith(m.pattern.slice(0, -1)) : accountId === m.pattern));
+            if (accountMapping) return accountMapping.bank;
+            const companyMapping = mappings.find(m => m.companyCode !== null && m.companyCode === String(row.company_code ?? ''));
+            if (companyMapping) return companyMapping.bank;
+            const prefix = accountId.replace(/[-_]?\d+$/, '') || accountId;
+            if (!prefixGroups.has(prefix)) prefixGroups.set(prefix, new Set());
+            prefixGroups.get(prefix)!.add(accountId);
+            return prefix;
+        };
+
+        const exposures: { exposure_type: string; name: string; amount: number }[] = [];
+        const latestBalances = new Map<string, CsvRow>();
+        this.getDataset(DataType.ACCOUNT_BALANCES).data.forEach(row => {
+            const date = String(row.evaluation_date ?? '').slice(0, 10);
+            if (!date || date > asOfDate) return;
+            const current = latestBalances.get(String(row.account_id));
+            if (!current || String(current.evaluation_date) < date) latestBalances.set(String(row.account_id), row);
+        });
+        latestBalances.forEach(row => {
+            const balance = Number(row.balance);
+            if (!isNaN(balance) && balance > 0) exposures.push({ exposure_type: 'bank', name: bankOf(row), amount: toReporting(balance, String(row.currency)) });
+        });
+        this.getDataset(DataType.LOANS).data.forEach(row => {
+            const startDate = String(row.start_date ?? '').slice(0, 10);
+            const maturityDate = String(row.maturity_date ?? '').slice(0, 10);
+            const principal = Math.abs(Number(row.principal_amount));
+            if ((startDate && startDate > asOfDate) || (maturityDate && maturityDate <= asOfDate) || isNaN(principal)) return;
+            exposures.push({ exposure_type: 'lender', name: String(row.lender), amount: toReporting(principal, String(row.currency)) });
+        });
+        this.getDataset(DataType.TRADE_ITEMS).data.forEach(row => {
+            const amount = Math.abs(Number(row.amount));
+            if (String(row.item_type).toUpperCase() !== 'AR' || !settlement.isOpen(row, asOfDate) || isNaN(amount)) return;
+            exposures.push({ exposure_type: 'counterparty', name: String(row.counterparty), amount: toReporting(amount, String(row.currency)) });
+        });
+        if (exposures.length === 0) {
+            throw new Error(`No deposits, loans or receivables were found as of ${asOfDate}.`);
+        }
+
+        const limitFor = (exposureType: string, name: string) => {
+            const specific = limitList.find(l => l.exposure_type === exposureType && l.name && l.name !== '*' && l.name === name);
+            const fallback = limitList.find(l => l.exposure_type === exposureType && (!l.name || l.name === '*'));
+            const limit = Number((specific ?? fallback)?.limit);
+            return isFinite(limit) ? limit : null;
+        };
+
+        const round = (value: number) => parseFloat(value.toFixed(2));
+        const concentrationRows: CsvRow[] = [];
+        const indexRows: CsvRow[] = [];
+        exposureTypes.forEach(exposureType => {
+            const byName = d3.rollups(exposures.filter(e => e.exposure_type === exposureType), v => d3.sum(v, e => e.amount), e => e.name)
+                .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+            const total = d3.sum(byName, ([, amount]) => amount);
+            if (byName.length === 0) return;
+            byName.forEach(([name, amount]) => {
+                const limit = limitFor(exposureType, name);
+                concentrationRows.push({
+                    exposure_type: exposureType,
+                    name,
+                    exposure_reporting: round(amount),
+                    share_pct: total > 0 ? round(amount / total * 100) : 0,
+                    limit_reporting: limit,
+                    utilization_pct: limit && limit > 0 ? round(amount / limit * 100) : null,
+                    status: limit === null ? 'NO_LIMIT' : amount > limit ? 'BREACH' : 'OK',
+                    reporting_currency: reportingCurrency,
+                });
+            });
+            // Herfindahl-Hirschman index on percentage shares (0-10,000)
+            const hhi = total > 0 ? d3.sum(byName, ([, amount]) => (amount / total * 100) ** 2) : 0;
+            indexRows.push({
+                exposure_type: exposureType,
+                total_exposure_reporting: round(total),
+                entity_count: byName.length,
+                largest_share_pct: total > 0 ? round(byName[0][1] / total * 100) : 0,
+                hhi: round(hhi),
+                concentration_level: hhi > 2500 ? 'HIGH' : hhi >= 1500 ? 'MODERATE' : 'LOW',
+            });
+        });
+
+        const breaches = concentrationRows.filter(r => r.status === 'BREACH');
+        const resultName = this.saveResult(concentrationRows);
+        const newDataSet = this.intermediateData[resultName];
+        const indexName = this.saveResult(indexRows);
+
+        const breachColumns = ['exposure_type', 'name', 'exposure_reporting', 'limit_reporting', 'utilization_pct'];
+        const resultPayload: Record<string, any> = {
+            new_dataset_name: resultName,
+            rows: concentrationRows.length,
+            message: `${asOfDate}時点の銀行預金（銀行別）、借入金（金融機関別）、売掛金（取引先別）のエクスポージャーを${reportingCurrency}に換算（${rateDate}のレート）し、限度額と比較しました。限度額超過は${breaches.length}件です。ハーフィンダール指数（HHI）は "${indexName}" に保存しました。${settlementNote}`,
+            columns: newDataSet.stats.columnNames,
+            data_preview: newDataSet.data.slice(0, 5),
+            concentration_index_dataset_name: indexName,
+            concentration_index: indexRows,
+            breaches: breaches.map(r => Object.fromEntries(breachColumns.map(c => [c, r[c]]))),
+            markdown_table: `### 限度額超過一覧\n\n${this.markdownify(breaches, breachColumns)}\n\n### 集中度指標 (HHI)\n\n${this.markdownify(indexRows, Object.keys(indexRows[0] ?? {}))}`,
+        };
+        const warnings: string[] = [];
+        if (prefixGroups.size > 0) {
+            const accountCount = d3.sum([...prefixGroups.values()], ids => ids.size);
+            warnings.push(`${accountCount}件の口座は銀行の対応付けがないため、口座IDの接頭辞（${[...prefixGroups.keys()].sort().join(', ')}）を銀行の代わりとして集計しました。銀行別のHHIを正しく評価するには、bank_mappingで口座IDまたは会社コードと銀行名の対応を指定してください。`);
+        }
+        if (missingCurrencies.size > 0) {
+            warnings.push(`次の通貨は為替レートがないため0として扱いました: ${[...missingCurrencies].sort().join(', ')}`);
+        }
+        if (warnings.length > 0) {
+            resultPayload.warning = warnings.join(' ');
+        }
+
+        return { result: resultPayload, newDataSet };
+    }
+
+    private async proposeIntercompanyNetting(netting_currency: string = 'USD', period?: string, dataset_name?: string, counterparty_column?: string, netting_center_company_code?: string) {
+        const nettingCurrency = String(netting_currency || 'USD').toUpperCase();
+        const dataset = this.getDataset(dataset_name || DataType.TRANSACTIONS);
+        const columns = dataset.stats.columnNames;
+        const counterpartyColumn = counterparty_column || ['counterparty_company_code', 'counterparty'].find(c => columns.includes(c));
+        if (counterpartyColumn && !columns.includes(counterpartyColumn)) {
+            throw new Error(`Counterparty company column "${counterpartyColumn}" was not found in dataset "${dataset.name}". Available columns: ${columns.join(', ')}.`);
+        }
+        const dateColumn = ['transaction_date', 'date', 'due_date'].find(c => columns.includes(c));
+
+        const directory = this.getAccountDirectory();
+        const companyOf = (row: CsvRow) => {
+            if (row.company_code !== null && row.company_code !== undefined && row.company_code !== '') return String(row.company_code);
+            return directory.get(String(row.account_id))?.company_code ?? null;
+        };
+
+        const intercompanyRows = dataset.data.filter(row => !columns.includes('category') || String(row.category).toUpperCase() === 'INTERCOMPANY');
+        // An omitted period nets the latest month in the data; an empty one nets every period together
+        const requestedPeriod = period === undefined || period === null ? undefined : String(period).trim();
+        if (requestedPeriod && !/^\d{4}-\d{2}$/.test(requestedPeriod)) {
+            throw new Error(`Invalid period: ${period}. Use the YYYY-MM format, or an empty string for all periods.`);
+        }
+        const nettingPeriod = requestedPeriod === undefined
+            ? (dateColumn ? d3.max(intercompanyRows, row => String(row[dateColumn] ?? '').slice(0, 7) || undefined) : undefined)
+            : requestedPeriod || undefined;
+        const periodRows = dateColumn && nettingPeriod ? intercompanyRows.filter(row => String(row[dateColumn] ?? '').startsWith(nettingPeriod)) : intercompanyRows;
+        if (periodRows.length === 0) {
+            throw new Error(`No intercompany flows were found${nettingPeriod ? ` for ${nettingPeriod}` : ''} in dataset "${dataset.name}".`);
+        }
+
+        const rateAsOf = nettingPeriod ? formatDate(new Date(Date.UTC(Number(nettingPeriod.slice(0, 4)), Number(nettingPeriod.slice(5, 7)), 0))) : undefined;
+        const { rateDate, rates } = this.getFxRatesAsOf(rateAsOf);
+        if (!rates.has(nettingCurrency)) {
+            throw new Error(`Netting currency "${nettingCurrency}" cannot be derived from the fx_rates dataset.`);
+        }
+
+        // Without a counterparty column, the counterparty is a company code mentioned in the description
+        // (e.g. "INTERCOMPANY - US01 - 2024-01"). Flows that name no counterparty are settled with the netting centre,
+        // by default the company holding the most cash in the netting currency on the latest balance snapshot.
+        const companyCodes = new Set([...directory.values()].map(a => a.company_code));
+        let nettingCenter: string | null = null;
+        if (!counterpartyColumn) {
+            if (netting_center_company_code) {
+                nettingCenter = String(netting_center_company_code);
+                if (!companyCodes.has(nettingCenter)) {
+                    throw new Error(`Netting center company "${nettingCenter}" was not found in account_balances. Available company codes: ${[...companyCodes].sort().join(', ')}.`);
+                }
+            } else {
+                const balances = this.getDataset(DataType.ACCOUNT_BALANCES).data;
+                const snapshotDate = d3.max(balances, row => String(row.evaluation_date ?? '').slice(0, 10) || undefined);
+                const cashByCompany = d3.rollups(
+                    balances.filter(row => String(row.evaluation_date ?? '').slice(0, 10) === snapshotDate),
+                    v => d3.sum(v, row => (Number(row.balance) || 0) * (this.getCrossRate(rates, String(row.currency).toUpperCase(), nettingCurrency) ?? 0)),
+                    row => String(row.company_code),
+                );
+                nettingCenter = d3.greatest(cashByCompany, ([, cash]) => cash)?.[0] ?? null;
+            }
+        }
+        let centerRows = 0;
+        const counterpartyOf = (row: CsvRow, company: string) => {
+            if (counterpartyColumn) {
+                const value = row[counterpartyColumn];
+                return value === null || value === undefined || value === '' ? null : String(value);
+            }
+            const mentioned = String(row.description ?? '').split(/[^A-Za-z0-9_]+/).find(token => token !== company && companyCodes.has(token));
+            if (mentioned) return mentioned;
+            if (nettingCenter && nettingCenter !== company) centerRows++;
+            return nettingCenter;
+        };
+
+        // Obligations per ordered pair, recorded separately from the payer's and the receiver's books.
+        // When both legs are booked they mirror each other, so the larger of the two is used instead of the sum.
+        const payerView = new Map<string, number>();
+        const receiverView = new Map<string, number>();
+        const missingCurrencies = new Set<string>();
+        let skippedRows = 0;
+        periodRows.forEach(row => {
+            const company = companyOf(row);
+            const counterparty = company ? counterpartyOf(row, company) : null;
+            const amount = Number(row.amount);
+            const currency = String(row.currency ?? '').toUpperCase();
+            if (!company || !counterparty || counterparty === company || isNaN(amount) || amount === 0) {
+                skippedRows++;
+                return;
+            }
+            const fxRate = this.getCrossRate(rates, currency, nettingCurrency);
+            if (fxRate === null) {
+                missingCurrencies.add(currency);
+                skippedRows++;
+                return;
+            }
+            const converted = Math.abs(amount) * fxRate;
+            const [payer, receiver, view] = amount < 0 ? [company, counterparty, payerView] : [counterparty, company, receiverView];
+            const key = `${payer}\u0000${receiver}`;
+            view.set(key, (view.get(key) ?? 0) + converted);
+        });
+        const obligations = new Map<string, number>();
+        new Set([...payerView.keys(), ...receiverView.keys()]).forEach(key => {
+            obligations.set(key, Math.max(payerView.get(key) ?? 0, receiverView.get(key) ?? 0));
+        });
+        if (obligations.size === 0) {
+            throw new Error(`None of the intercompany flows in dataset "${dataset.name}" could be assigned to a payer and a receiver company.`);
+        }
+
+        const netPositions = new Map<string, number>();
+        let grossTotal = 0;
+        obligations.forEach((amount, key) => {
+            const [payer, receiver] = key.split('\u0000');
+            netPositions.set(payer, (netPositions.get(payer) ?? 0) - amount);
+            netPositions.set(receiver, (netPositions.get(receiver) ?? 0) + amount);
+            grossTotal += amount;
+        });
+
+        let bilateralTotal = 0;
+        let bilateralCount = 0;
+        const visitedPairs = new Set<string>();
+        obligations.forEach((amount, key) => {
+            const [payer, receiver] = key.split('\u0000');
+            const pairKey = [payer, receiver].sort().join('\u0000');
+            if (visitedPairs.has(pairKey)) return;
+            visitedPairs.add(pairKey);
+            const net = Math.abs(amount - (obligations.get(`${receiver}\u0000${payer}`) ?? 0));
+            if (net > 0.005) {
+                bilateralTotal += net;
+                bilateralCount++;
+            }
+        });
+
+        // Match the largest net payer with the largest net receiver until every position is settled,
+        // which needs at most (participants - 1) payments and moves only the net amounts.
+        const payers = [...netPositions.entries()].filter(([, v]) => v < -0.005).map(([company, v]) => ({ company, remaining: -v }));
+        const receivers = [...netPositions.entries()].filter(([, v]) => v > 0.005).map(([company, v]) => ({ company, remaining: v }));
+        const companyCurrency = new Map<string, string>();
+        d3.rollups([...directory.values()], v => d3.greatest(d3.rollups(v, g => g.length, a => a.currency), ([, n]) => n)?.[0] ?? null, a => a.company_code)
+            .forEach(([company, currency]) => { if (currency) companyCurrency.set(company, currency); });
+        const round = (value: number) => parseFloat(value.toFixed(2));
 
-            const stats = {
-                count: dateValues.length,
-                unique_count: uniqueDates.size,
-                start_date: minDate.toISOString().split('T')[0],
-                end_date: maxDate.toISOString().split('T')[0],
-                duration_days: Math.round(duration_days),
-            };
-            return { result: { statistics: stats, message: `Date statistics for column "${column}" have been calculated.` } };
-        } else {
-            throw new Error(`Column "${column}" does not contain numerical or date data. Its type is "${columnType}".`);
+        const settlementRows: CsvRow[] = [];
+        let netTotal = 0;
+        while (payers.length > 0 && receivers.length > 0) {
+            payers.sort((a, b) => b.remaining - a.remaining || a.company.localeCompare(b.company));
+            receivers.sort((a, b) => b.remaining - a.remaining || a.company.localeCompare(b.company));
+            const payer = payers[0];
+            const receiver = receivers[0];
+            const amount = Math.min(payer.remaining, receiver.remaining);
+            const payerCurrency = companyCurrency.get(payer.company) ?? null;
+            const payerRate = payerCurrency ? this.getCrossRate(rates, nettingCurrency, payerCurrency) : null;
+            settlementRows.push({
+                settlement_no: settlementRows.length + 1,
+                payer_company_code: payer.company,
+                receiver_company_code: receiver.company,
+                amount: round(amount),
+                netting_currency: nettingCurrency,
+                payer_currency: payerCurrency,
+                amount_payer_currency: payerRate === null ? null : round(amount * payerRate),
+                netting_period: nettingPeriod ?? null,
+                rate_date: rateDate,
+            });
+            netTotal += amount;
+            payer.remaining -= amount;
+            receiver.remaining -= amount;
+            if (payer.remaining <= 0.005) payers.shift();
+            if (receiver.remaining <= 0.005) receivers.shift();
+        }
+
+        // Gross flows reduced step by step to the net settlement; the waterfall chart adds the total bar.
+        // The steps are differences of the rounded totals so that they add up to the rounded net total.
+        const summaryRows: CsvRow[] = [
+            { step: 'Gross intercompany payments', amount: round(grossTotal), payment_count: obligations.size, netting_currency: nettingCurrency },
+            { step: 'Bilateral netting savings', amount: round(round(bilateralTotal) - round(grossTotal)), payment_count: bilateralCount - obligations.size, netting_currency: nettingCurrency },
+            { step: 'Multilateral netting savings', amount: round(round(netTotal) - round(bilateralTotal)), payment_count: settlementRows.length - bilateralCount, netting_currency: nettingCurrency },
+        ];
+
+        const resultName = this.saveResult(settlementRows);
+        const newDataSet = this.intermediateData[resultName];
+        const summaryName = this.saveResult(summaryRows);
+        const savingsPct = grossTotal > 0 ? round((grossTotal - netTotal) / grossTotal * 100) : 0;
+
+        const resultPayload: Record<string, any> = {
+            new_dataset_name: resultName,
+            rows: settlementRows.length,
+            message: `${nettingPeriod ? `${nettingPeriod}の` : ''}社内取引${obligations.size}件（総額${round(grossTotal)} ${nettingCurrency}）をマルチラテラル・ネッティングし、${settlementRows.length}件の決済（総額${round(netTotal)} ${nettingCurrency}）に集約しました。削減率は${savingsPct}%です。グロスからネットへの内訳は "${summaryName}" に保存しました（render_waterfall_chartで可視化できます）。`,
+            columns: newDataSet.stats.columnNames,
+            data_preview: newDataSet.data.slice(0, 5),
+            netting_summary_dataset_name: summaryName,
+            gross_total: round(grossTotal),
+            net_total: round(netTotal),
+            savings: round(grossTotal - netTotal),
+            savings_pct: savingsPct,
+            net_positions: [...netPositions.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([company_code, v]) => ({ company_code, net_position: round(v) })),
+        };
+        if (nettingCenter) {
+            resultPayload.netting_center_company_code = nettingCenter;
+        }
+        const warnings: string[] = [];
+        if (centerRows > 0) {
+            warnings.push(`相手先の会社コード列がなく、摘要からも相手先が特定できない${centerRows}件の取引は、ネッティングセンター（${nettingCenter}）との取引として扱いました。相手先別に精算する場合は、相手先の会社コード列をcounterparty_columnに指定してください。`);
         }
+        if (skippedRows > 0) {
+            warnings.push(`${skippedRows}件の取引は会社コード・相手先会社・金額のいずれかが特定できないため除外しました。`);
+        }
+        if (missingCurrencies.size > 0) {
+            warnings.push(`次の通貨は為替レートがないため除外しました: ${[...missingCurrencies].sort().join(', ')}`);
+        }
+        if (warnings.length > 0) {
+            resultPayload.warning = warnings.join(' ');
+        }
+
+        return { result: resultPayload, newDataSet };
     }
-    
-    private async joinDatasets(left_dataset_name: string, right_dataset_name: string, left_on_column: string, right_on_column: string, join_type: string) {
-        const supportedJoins = ['inner', 'left', 'right', 'full'];
-        if (!supportedJoins.includes(join_type)) {
-            throw new Error(`Join type "${join_type}" is not supported. Available types: ${supportedJoins.join(', ')}.`);
+
+    private async simulateCashPool(header_company_code: string, pool_currency: string, header_account_id?: string, participant_company_codes?: string[], target_balances: { account_id: string; target_balance: number }[] = [], default_target_balance: number = 0, from_date?: string, to_date?: string, deposit_rate_pct: number = 0, borrowing_rate_pct: number = 0, day_count: string = 'ACT/365', include_other_currencies: boolean = false) {
+        const poolCurrency = String(pool_currency || '').toUpperCase();
+        const headerCompany = String(header_company_code || '');
+        const directory = this.getAccountDirectory();
+        const participantCodes = Array.isArray(participant_company_codes) ? participant_company_codes : participant_company_codes ? [participant_company_codes] : [];
+        const participants = participantCodes.length > 0 ? new Set(participantCodes.map(String)) : null;
+        if (participants) participants.add(headerCompany);
+
+        // Latest snapshot per account; daily balances are rebuilt from it by rolling transactions backwards or forwards
+        const snapshots = new Map<string, { date: string; balance: number }>();
+        this.getDataset(DataType.ACCOUNT_BALANCES).data.forEach(row => {
+            const date = String(row.evaluation_date ?? '').slice(0, 10);
+            const balance = Number(row.balance);
+            if (!date || isNaN(balance)) return;
+            const current = snapshots.get(String(row.account_id));
+            if (!current || current.date < date) snapshots.set(String(row.account_id), { date, balance });
+        });
+        const accounts = [...directory.entries()]
+            .filter(([accountId, info]) => snapshots.has(accountId) && (!participants || participants.has(info.company_code)))
+            .map(([account_id, info]) => ({ account_id, ...info }))
+            .sort((a, b) => a.company_code.localeCompare(b.company_code) || a.account_id.localeCompare(b.account_id));
+
+        const headerCandidates = accounts.filter(a => a.company_code === headerCompany && a.currency === poolCurrency);
+        const headerAccount = header_account_id
+            ? accounts.find(a => a.account_id === header_account_id)
+            : d3.greatest(headerCandidates, a => snapshots.get(a.account_id)!.balance);
+        if (!headerAccount) {
+            throw new Error(header_account_id
+                ? `Header account "${header_account_id}" was not found in account_balances.`
+                : `Company "${headerCompany}" has no ${poolCurrency} account that can act as the header account.`);
+        }
+        if (headerAccount.company_code !== headerCompany || headerAccount.currency !== poolCurrency) {
+            throw new Error(`Header account "${headerAccount.account_id}" must be a ${poolCurrency} account of company "${headerCompany}".`);
         }
 
-        const leftDs = this.getDataset(left_dataset_name);
-        const rightDs = this.getDataset(right_dataset_name);
+        const snapshotDate = d3.max([...snapshots.values()], s => s.date)!;
+        const endDate = to_date ? String(to_date).slice(0, 10) : snapshotDate;
+        const startDate = from_date ? String(from_date).slice(0, 10) : addDays(endDate, -89);
+        if (startDate > endDate) {
+            throw new Error(`from_date (${startDate}) must be on or before to_date (${endDate}).`);
+        }
+        const dayFraction = (date: string) => dayCountFraction(date, addDays(date, 1), day_count);
 
-        const mergeRows = (leftRow: CsvRow | null, rightRow: CsvRow | null): CsvRow => {
-            const newRow: CsvRow = {};
-            const leftData = leftRow || {};
-            const rightData = rightRow || {};
-            
-            // Add left columns
-            leftDs.stats.columnNames.forEach(col => {
-                newRow[col] = leftData[col] ?? null;
+        const flows = new Map<string, Map<string, number>>();
+        this.getDataset(DataType.TRANSACTIONS).data.forEach(row => {
+            const amount = Number(row.amount);
+            const date = String(row.transaction_date ?? '').slice(0, 10);
+            if (!date || isNaN(amount)) return;
+            const byDate = flows.get(String(row.account_id)) ?? new Map<string, number>();
+            byDate.set(date, (byDate.get(date) ?? 0) + amount);
+            flows.set(String(row.account_id), byDate);
+        });
+        // Balance at the end of the day before the simulation starts
+        const openingBalance = (accountId: string) => {
+            const snapshot = snapshots.get(accountId)!;
+            const openingDate = addDays(startDate, -1);
+            let balance = snapshot.balance;
+            flows.get(accountId)?.forEach((amount, date) => {
+                if (date > openingDate && date <= snapshot.date) balance -= amount;
+                else if (date > snapshot.date && date <= openingDate) balance += amount;
             });
+            return balance;
+        };
 
-            // Add right columns, handling conflicts
-            rightDs.stats.columnNames.forEach(col => {
-                if (col === right_on_column) {
-                    // Coalesce the join key: if left key is null, use right key
-                    if (newRow[left_on_column] === null && rightData[col] !== null) {
-                         newRow[left_on_column] = rightData[col];
-                    }
-                } else {
-                    const newKey = newRow.hasOwnProperty(col) ? `${col}_right` : col;
-                    newRow[newKey] = rightData[col] ?? null;
-                }
-            });
-            return newRow;
+        const targets = (Array.isArray(target_balances) ? target_balances : []).map(t => ({ pattern: String(t.account_id), target: Number(t.target_balance) }));
+        const targetOf = (accountId: string) => {
+            const target = targets.find(t => t.pattern.endsWith('*') ? accountId.startsWith(t.pattern.slice(0, -1)) : accountId === t.pattern);
+            return target && isFinite(target.target) ? target.target : Number(default_target_balance) || 0;
         };
 
-        const rightMapGrouped = new Map<any, CsvRow[]>();
-        rightDs.data.forEach(row => {
-            const key = row[right_on_column];
-            const group = rightMapGrouped.get(key) || [];
-            group.push(row);
-            rightMapGrouped.set(key, group);
+        const { dates: rateDates, ratesByDate } = this.getFxRateHistory();
+        const rates = new Map<string, number>([['USD', 1]]);
+        let rateIndex = 0;
+        const advanceRates = (date: string) => {
+            while (rateIndex < rateDates.length && rateDates[rateIndex] <= date) {
+                ratesByDate.get(rateDates[rateIndex])!.forEach((rate, currency) => rates.set(currency, rate));
+                rateIndex++;
+            }
+        };
+        advanceRates(startDate);
+        // A physical zero-balancing pool holds one currency, so accounts in other currencies stay out unless
+        // include_other_currencies asks for a multi-currency pool swept at the daily spot rate.
+        const excludedAccounts = include_other_currencies ? [] : accounts.filter(a => a.currency !== poolCurrency);
+        const missingCurrencies = new Set<string>();
+        accounts.forEach(a => {
+            if (!excludedAccounts.includes(a) && this.getCrossRate(rates, a.currency, poolCurrency) === null) missingCurrencies.add(a.currency);
         });
-        
-        const joinedData: CsvRow[] = [];
-        const matchedRightKeys = new Set();
-
-        leftDs.data.forEach(leftRow => {
-            const key = leftRow[left_on_column];
-            const matchingRightRows = rightMapGrouped.get(key);
-            if (matchingRightRows) {
-                matchedRightKeys.add(key);
-                if (join_type === 'inner' || join_type === 'left' || join_type === 'full') {
-                    matchingRightRows.forEach(rightRow => {
-                        joinedData.push(mergeRows(leftRow, rightRow));
-                    });
-                }
-            } else if (join_type === 'left' || join_type === 'full') {
-                joinedData.push(mergeRows(leftRow, null));
+        const poolAccounts = accounts.filter(a => !excludedAccounts.includes(a) && !missingCurrencies.has(a.currency));
+
+        const standalone = new Map(poolAccounts.map(a => [a.account_id, openingBalance(a.account_id)]));
+        const pooled = new Map(standalone);
+        const intercompany = new Map<string, { position: number; sum: number; maxLent: number; maxBorrowed: number }>();
+        poolAccounts.forEach(a => {
+            if (a.company_code !== headerCompany && !intercompany.has(a.company_code)) intercompany.set(a.company_code, { position: 0, sum: 0, maxLent: 0, maxBorrowed: 0 });
+        });
+        let standaloneInterest = 0;
+        let pooledInterest = 0;
+        const interestOn = (balance: number, fraction: number) => balance * (balance >= 0 ? Number(deposit_rate_pct) : Number(borrowing_rate_pct)) / 100 * fraction;
+        const round = (value: number) => parseFloat(value.toFixed(2));
+
+        const balanceRows: CsvRow[] = [];
+        let dayCount = 0;
+        for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+            advanceRates(date);
+            dayCount++;
+            const fraction = dayFraction(date);
+            const dayRows: CsvRow[] = [];
+            let sweptToHeader = 0;
+            let groupBalance = 0;
+            let targetsTotal = 0;
+            poolAccounts.forEach(a => {
+                const flow = flows.get(a.account_id)?.get(date) ?? 0;
+                const toPool = this.getCrossRate(rates, a.currency, poolCurrency)!;
+                standalone.set(a.account_id, standalone.get(a.account_id)! + flow);
+                standaloneInterest += interestOn(standalone.get(a.account_id)! * toPool, fraction);
+                groupBalance += standalone.get(a.account_id)! * toPool;
+                if (a.account_id === headerAccount.account_id) return;
+
+                // Zero-balancing: excess above the target moves to the header account, shortfalls are funded from it
+                const beforeSweep = pooled.get(a.account_id)! + flow;
+                const target = targetOf(a.account_id);
+                const sweep = beforeSweep - target;
+                const sweepPool = sweep * toPool;
+                pooled.set(a.account_id, target);
+                sweptToHeader += sweepPool;
+                targetsTotal += target * toPool;
+                pooledInterest += interestOn(target * toPool, fraction);
+                const position = intercompany.get(a.company_code);
+                if (position) position.position += sweepPool;
+                dayRows.push({
+                    date,
+                    account_id: a.account_id,
+                    company_code: a.company_code,
+                    currency: a.currency,
+                    role: 'PARTICIPANT',
+                    balance_before_sweep: round(beforeSweep),
+                    sweep_amount: round(sweep),
+                    sweep_amount_pool: round(sweepPool),
+                    balance_after_sweep: round(target),
+                    pool_currency: poolCurrency,
+                });
+            });
+            const headerBefore = pooled.get(headerAccount.account_id)! + (flows.get(headerAccount.account_id)?.get(date) ?? 0);
+            const headerAfter = headerBefore + sweptToHeader;
+            pooled.set(headerAccount.account_id, headerAfter);
+            // Interest on the header is measured at the same daily rates as the standalone balances,
+            // so the benefit reflects the offsetting of balances rather than FX translation of past sweeps.
+            pooledInterest += interestOn(groupBalance - targetsTotal, fraction);
+            balanceRows.push({
+                date,
+                account_id: headerAccount.account_id,
+                company_code: headerCompany,
+                currency: poolCurrency,
+                role: 'HEADER',
+                balance_before_sweep: round(headerBefore),
+                sweep_amount: round(-sweptToHeader),
+                sweep_amount_pool: round(-sweptToHeader),
+                balance_after_sweep: round(headerAfter),
+                pool_currency: poolCurrency,
+            }, ...dayRows);
+            intercompany.forEach(p => {
+                p.sum += p.position;
+                p.maxLent = Math.max(p.maxLent, p.position);
+                p.maxBorrowed = Math.min(p.maxBorrowed, p.position);
+            });
+        }
+
+        // Positive positions are loans from the participant to the header company, negative ones are borrowings from it
+        const positionRows: CsvRow[] = [...intercompany.entries()].map(([company_code, p]) => ({
+            company_code,
+            counterparty_company_code: headerCompany,
+            closing_position: round(p.position),
+            average_position: round(p.sum / dayCount),
+            max_lent: round(p.maxLent),
+            max_borrowed: round(-p.maxBorrowed),
+            position_type: p.position >= 0 ? 'LENDER' : 'BORROWER',
+            pool_currency: poolCurrency,
+        }));
+        const headerPosition = d3.sum(positionRows, r => Number(r.closing_position));
+        positionRows.push({
+            company_code: headerCompany,
+            counterparty_company_code: 'POOL',
+            closing_position: round(-headerPosition),
+            average_position: round(-d3.sum(positionRows, r => Number(r.average_position))),
+            max_lent: null,
+            max_borrowed: null,
+            position_type: 'HEADER',
+            pool_currency: poolCurrency,
+        });
+
+        const resultName = this.saveResult(balanceRows);
+        const newDataSet = this.intermediateData[resultName];
+        const positionsName = this.saveResult(positionRows);
+        const notionalBenefit = pooledInterest - standaloneInterest;
+
+        const resultPayload: Record<string, any> = {
+            new_dataset_name: resultName,
+            rows: balanceRows.length,
+            message: `${headerCompany}の${headerAccount.account_id}をヘッダー口座とする${include_other_currencies ? `${poolCurrency}換算のマルチカレンシー・プール（他通貨の口座は日次のスポットレートで換算してスイープ）` : `${poolCurrency}建てゼロバランシング・プール`}を${startDate}〜${endDate}（${dayCount}日間）でシミュレーションしました。参加口座は${poolAccounts.length}口座です。期末のヘッダー口座残高は${round(Number(pooled.get(headerAccount.account_id)))} ${poolCurrency}、プールによる想定金利メリットは${round(notionalBenefit)} ${poolCurrency}です。会社別の社内貸借ポジションは "${positionsName}" に保存しました。`,
+            columns: newDataSet.stats.columnNames,
+            data_preview: newDataSet.data.slice(0, 5),
+            intercompany_dataset_name: positionsName,
+            header_account_id: headerAccount.account_id,
+            interest: {
+                standalone_net_interest: round(standaloneInterest),
+                pooled_net_interest: round(pooledInterest),
+                notional_benefit: round(notionalBenefit),
+                deposit_rate_pct: Number(deposit_rate_pct),
+                borrowing_rate_pct: Number(borrowing_rate_pct),
+                day_count,
+                currency: poolCurrency,
+            },
+        };
+        const warnings: string[] = [];
+        if (excludedAccounts.length > 0) {
+            resultPayload.excluded_accounts = excludedAccounts.map(a => ({ account_id: a.account_id, company_code: a.company_code, currency: a.currency }));
+            warnings.push(`プール通貨（${poolCurrency}）以外の${excludedAccounts.length}口座（${[...new Set(excludedAccounts.map(a => a.currency))].sort().join(', ')}）はプールから除外しました。他通貨の口座を換算して含める場合はinclude_other_currenciesをtrueにしてください。`);
+        }
+        if (missingCurrencies.size > 0) {
+            warnings.push(`次の通貨の口座は為替レートがないためプールから除外しました: ${[...missingCurrencies].sort().join(', ')}`);
+        }
+        if (warnings.length > 0) {
+            resultPayload.warning = warnings.join(' ');
+        }
+
+        return { result: resultPayload, newDataSet };
+    }
+
+    private async detectTransactionAnomalies(dataset_name?: string, z_threshold: number = 3.5, rolling_window_days: number = 180, min_history: number = 5, duplicate_window_days: number = 3, holidays: { date: string; country_code?: string }[] = [], flag_weekends: boolean = false) {
+        const dataset = this.getDataset(dataset_name || DataType.TRANSACTIONS);
+        const columns = dataset.stats.columnNames;
+        ['transaction_date', 'account_id', 'amount'].forEach(column => {
+            if (!columns.includes(column)) {
+                throw new Error(`Column "${column}" was not found in dataset "${dataset.name}".`);
             }
         });
+        const threshold = Number(z_threshold) || 3.5;
+        const windowDays = Math.max(1, Number(rolling_window_days) || 180);
+        const minHistory = Math.max(2, Number(min_history) || 5);
+        const duplicateWindow = Math.max(0, Number(duplicate_window_days) || 0);
+
+        const directory = this.getAccountDirectory();
+        const holidayList = Array.isArray(holidays) ? holidays : [];
+        const isHoliday = (date: string, accountId: string) => {
+            const country = directory.get(accountId)?.country_code;
+            return holidayList.some(h => String(h.date).slice(0, 10) === date && (!h.country_code || h.country_code === country));
+        };
+        // Day-of-month buckets capture month-start, mid-month and month-end payment cycles (salaries, rent, tax)
+        const monthPhase = (date: string) => {
+            const day = Number(date.slice(8, 10));
+            return day <= 10 ? 'early' : day <= 20 ? 'mid' : 'late';
+        };
+        const median = (values: number[]) => d3.median(values) ?? 0;
+        const round = (value: number) => parseFloat(value.toFixed(2));
+
+        const rows = dataset.data
+            .map((row, index) => ({ row, index, date: String(row.transaction_date ?? '').slice(0, 10), amount: Number(row.amount) }))
+            .filter(r => r.date && !isNaN(r.amount));
+        const groups = d3.groups(rows, r => `${r.row.account_id}\u0000${columns.includes('category') ? r.row.category : ''}`);
+
+        const flaggedRows: CsvRow[] = [];
+        const typeCounts = new Map<string, number>();
+        groups.forEach(([, groupRows]) => {
+            groupRows.sort((a, b) => a.date.localeCompare(b.date) || a.index - b.index);
+            groupRows.forEach((current, i) => {
+                const windowStart = addDays(current.date, -windowDays);
+                const history = groupRows.slice(0, i).filter(h => h.date >= windowStart);
+                const seasonal = history.filter(h => monthPhase(h.date) === monthPhase(current.date));
+                const baseline = seasonal.length >= minHistory ? seasonal : history;
+
+                const types: string[] = [];
+                const reasons: string[] = [];
+                let baselineMean: number | null = null;
+                let baselineMedian: number | null = null;
+                let robustZ: number | null = null;
+                if (baseline.length >= minHistory) {
+                    const amounts = baseline.map(h => h.amount);
+                    baselineMean = d3.mean(amounts)!;
+                    baselineMedian = median(amounts);
+                    const mad = median(amounts.map(a => Math.abs(a - baselineMedian!)));
+                    // Modified z-score (Iglewicz & Hoaglin); fall back to the mean absolute deviation when over half the amounts are identical
+                    const scale = mad > 0 ? mad / 0.6745 : (d3.mean(amounts, a => Math.abs(a - baselineMedian!)) ?? 0) * 1.2533;
+                    if (scale > 0) {
+                        robustZ = (current.amount - baselineMedian) / scale;
+                        if (Math.abs(robustZ) > threshold) {
+                            types.push('AMOUNT_OUTLIER');
+                            reasons.push(`金額が${baseline === seasonal ? '同じ月内時期の' : ''}過去${windowDays}日間の中央値${round(baselineMedian)}から大きく乖離（ロバストzスコア${round(robustZ)}）`);
+                        }
+                    } else if (current.amount !== baselineMedian) {
+                        types.push('AMOUNT_OUTLIER');
+                        reasons.push(`過去${windowDays}日間は常に${round(baselineMedian)}だった金額が${round(current.amount)}に変化`);
+                    }
+                }
+
+                const duplicateStart = addDays(current.date, -duplicateWindow);
+                const duplicate = groupRows.slice(0, i).find(h => h.date >= duplicateStart && h.amount === current.amount && h.row.description === current.row.description);
+                if (duplicate) {
+                    types.push('DUPLICATE');
+                    reasons.push(duplicate.date === current.date ? '同日に同じ口座・金額・摘要の取引が存在（重複の可能性）' : `${duplicate.date}に同じ口座・金額・摘要の取引が存在（重複の可能性）`);
+                }
 
-        if (join_type === 'right' || join_type === 'full') {
-            rightDs.data.forEach(rightRow => {
-                const key = rightRow[right_on_column];
-                if (!matchedRightKeys.has(key)) {
-                    joinedData.push(mergeRows(null, rightRow));
+                const weekday = new Date(`${current.date}T00:00:00Z`).getUTCDay();
+                if (flag_weekends === true && (weekday === 0 || weekday === 6)) {
+                    types.push('WEEKEND');
+                    reasons.push(`${weekday === 0 ? '日曜日' : '土曜日'}の取引`);
+                }
+                if (isHoliday(current.date, String(current.row.account_id))) {
+                    types.push('HOLIDAY');
+                    reasons.push('休日の取引');
                 }
+
+                if (types.length === 0) return;
+                types.forEach(t => typeCounts.set(t, (typeCounts.get(t) ?? 0) + 1));
+                flaggedRows.push({
+                    ...current.row,
+                    company_code: directory.get(String(current.row.account_id))?.company_code ?? null,
+                    baseline_mean: baselineMean === null ? null : round(baselineMean),
+                    baseline_median: baselineMedian === null ? null : round(baselineMedian),
+                    baseline_size: baseline.length,
+                    robust_z_score: robustZ === null ? null : round(robustZ),
+                    anomaly_types: types.join(';'),
+                    reason: reasons.join('、'),
+                });
             });
-        }
-        
-        const resultName = this.saveResult(joinedData);
+        });
+        // Amount outliers and duplicates are the findings; rows flagged only for the calendar (weekend, holiday)
+        // are kept in a separate dataset so that they do not bury them. Findings are ordered by severity.
+        const isFinding = (row: CsvRow) => String(row.anomaly_types).split(';').some(t => t === 'AMOUNT_OUTLIER' || t === 'DUPLICATE');
+        const findingRows = flaggedRows.filter(isFinding)
+            .sort((a, b) => Math.abs(Number(b.robust_z_score ?? 0)) - Math.abs(Number(a.robust_z_score ?? 0))
+                || String(a.transaction_date).localeCompare(String(b.transaction_date)) || String(a.account_id).localeCompare(String(b.account_id)));
+        const calendarRows = flaggedRows.filter(row => !isFinding(row))
+            .sort((a, b) => String(a.transaction_date).localeCompare(String(b.transaction_date)) || String(a.account_id).localeCompare(String(b.account_id)));
+
+        const resultName = this.saveResult(findingRows);
         const newDataSet = this.intermediateData[resultName];
-        
-        if (joinedData.length === 0) {
-            return {
-                result: {
-                    new_dataset_name: resultName,
-                    rows: 0,
-                    columns: newDataSet.stats.columnNames,
-                    warning: `"${left_dataset_name}" と "${right_dataset_name}" の結合結果が0件でした。結合キーが一致していない可能性があります。`,
-                    data_preview: newDataSet.data.slice(0, 5)
-                },
-                newDataSet
-            };
+        const calendarName = calendarRows.length > 0 ? this.saveResult(calendarRows) : null;
+        const anomalyCounts = Object.fromEntries(['AMOUNT_OUTLIER', 'DUPLICATE', 'WEEKEND', 'HOLIDAY'].map(t => [t, typeCounts.get(t) ?? 0]));
+        const countsByCompany = d3.rollups(findingRows, v => ({
+            amount_outliers: v.filter(r => String(r.anomaly_types).includes('AMOUNT_OUTLIER')).length,
+            duplicates: v.filter(r => String(r.anomaly_types).includes('DUPLICATE')).length,
+        }), r => String(r.company_code ?? 'UNKNOWN'))
+            .sort((a, b) => (b[1].amount_outliers + b[1].duplicates) - (a[1].amount_outliers + a[1].duplicates) || a[0].localeCompare(b[0]))
+            .map(([company_code, counts]) => ({ company_code, ...counts }));
+
+        const resultPayload: Record<string, any> = {
+            new_dataset_name: resultName,
+            rows: findingRows.length,
+            message: `${rows.length}件の取引を口座・カテゴリ別のベースライン（過去${windowDays}日間の移動平均・中央値絶対偏差、月内時期の季節性）と比較しました。金額の外れ値${anomalyCounts.AMOUNT_OUTLIER}件、重複の可能性${anomalyCounts.DUPLICATE}件の計${findingRows.length}件を乖離の大きい順に "${resultName}" に抽出しました。${calendarName ? `週末・休日のみに該当する${calendarRows.length}件は "${calendarName}" に分けて保存しました。` : ''}各行の理由は "reason" 列を参照してください。`,
+            anomaly_counts: anomalyCounts,
+            counts_by_company: countsByCompany,
+            columns: newDataSet.stats.columnNames,
+            data_preview: newDataSet.data.slice(0, 5),
+        };
+        if (calendarName) {
+            resultPayload.calendar_flags_dataset_name = calendarName;
         }
-        
-        return { result: { new_dataset_name: resultName, rows: joinedData.length, columns: newDataSet.stats.columnNames, data_preview: newDataSet.data.slice(0, 5) }, newDataSet };
+
+        return { result: resultPayload, newDataSet };
     }
-    
-    private async unionDatasets(dataset_names: string[]) {
-        if (!Array.isArray(dataset_names) || dataset_names.length < 2) {
-            throw new Error('union_datasets requires an array of at least two dataset names.');
+
+    private async reconcileBankBalances(tolerance: number = 0.01, account_ids?: string[], nearest_count: number = 3, search_window_days: number = 5, balances_dataset_name?: string) {
+        const balancesDataset = this.getDataset(balances_dataset_name || DataType.ACCOUNT_BALANCES);
+        ['evaluation_date', 'account_id', 'balance'].forEach(column => {
+            if (!balancesDataset.stats.columnNames.includes(column)) {
+                throw new Error(`Column "${column}" was not found in dataset "${balancesDataset.name}".`);
+            }
+        });
+        const toleranceAmount = Math.abs(Number(tolerance) || 0);
+        const nearestCount = Math.max(0, Number(nearest_count) || 0);
+        const windowDays = Math.max(0, Number(search_window_days) || 0);
+        const accountIds = Array.isArray(account_ids) ? account_ids : account_ids ? [account_ids] : [];
+        const accountFilter = accountIds.length > 0 ? new Set(accountIds.map(String)) : null;
+        const directory = this.getAccountDirectory();
+
+        const snapshotsByAccount = new Map<string, { date: string; balance: number }[]>();
+        balancesDataset.data.forEach(row => {
+            const accountId = String(row.account_id);
+            const date = String(row.evaluation_date ?? '').slice(0, 10);
+            const balance = Number(row.balance);
+            if (!date || isNaN(balance) || (accountFilter && !accountFilter.has(accountId))) return;
+            const snapshots = snapshotsByAccount.get(accountId) ?? [];
+            snapshots.push({ date, balance });
+            snapshotsByAccount.set(accountId, snapshots);
+        });
+        if (snapshotsByAccount.size === 0) {
+            throw new Error(`No balance snapshots were found in dataset "${balancesDataset.name}"${accountFilter ? ' for the requested accounts' : ''}.`);
         }
 
-        const firstDataset = this.getDataset(dataset_names[0]);
-        const firstSchema = firstDataset.stats.columnNames;
-        const allRows: CsvRow[] = [...firstDataset.data];
+        const transactionsByAccount = d3.group(
+            this.getDataset(DataType.TRANSACTIONS).data
+                .map(row => ({ row, date: String(row.transaction_date ?? '').slice(0, 10), amount: Number(row.amount) }))
+                .filter(t => t.date && !isNaN(t.amount)),
+            t => String(t.row.account_id),
+        );
+        const round = (value: number) => parseFloat(value.toFixed(2));
 
-        for (let i = 1; i < dataset_names.length; i++) {
-            const datasetName = dataset_names[i];
-            const currentDataset = this.getDataset(datasetName);
-            const currentSchema = currentDataset.stats.columnNames;
+        const periodRows: CsvRow[] = [];
+        const candidateRows: CsvRow[] = [];
+        const singleSnapshotAccounts: string[] = [];
+        [...snapshotsByAccount.keys()].sort().forEach(accountId => {
+            const snapshots = snapshotsByAccount.get(accountId)!.sort((a, b) => a.date.localeCompare(b.date));
+            const info = directory.get(accountId);
+            const transactions = transactionsByAccount.get(accountId) ?? [];
+            if (snapshots.length < 2) {
+                singleSnapshotAccounts.push(accountId);
+                return;
+            }
+            for (let i = 1; i < snapshots.length; i++) {
+                const opening = snapshots[i - 1];
+                const closing = snapshots[i];
+                // A snapshot includes the transactions booked on its own evaluation date
+                const periodTransactions = transactions.filter(t => t.date > opening.date && t.date <= closing.date);
+                const transactionTotal = d3.sum(periodTransactions, t => t.amount);
+                const expected = opening.balance + transactionTotal;
+                const difference = closing.balance - expected;
+                const reconciled = Math.abs(difference) <= toleranceAmount;
+                periodRows.push({
+                    account_id: accountId,
+                    company_code: info?.company_code ?? null,
+                    currency: info?.currency ?? null,
+                    period_start: opening.date,
+                    period_end: closing.date,
+                    opening_balance: round(opening.balance),
+                    transaction_total: round(transactionTotal),
+                    transaction_count: periodTransactions.length,
+                    expected_closing_balance: round(expected),
+                    actual_closing_balance: round(closing.balance),
+                    difference: round(difference),
+                    status: reconciled ? 'RECONCILED' : 'UNEXPLAINED',
+                });
+                if (reconciled || nearestCount === 0) continue;
 
-            if (currentSchema.length !== firstSchema.length || !currentSchema.every((col, index) => col === firstSchema[index])) {
-                throw new Error(`Schema mismatch: Dataset "${datasetName}" does not have the same columns and order as "${dataset_names[0]}". Expected [${firstSchema.join(', ')}] but got [${currentSchema.join(', ')}].`);
+                // A missing or double-posted transaction would have roughly the size of the gap
+                const windowStart = addDays(opening.date, -windowDays);
+                const windowEnd = addDays(closing.date, windowDays);
+                transactions
+                    .filter(t => t.date >= windowStart && t.date <= windowEnd)
+                    .map(t => ({ ...t, gap: Math.abs(Math.abs(t.amount) - Math.abs(difference)) }))
+                    .sort((a, b) => a.gap - b.gap || Math.abs(daysBetween(a.date, closing.date)) - Math.abs(daysBetween(b.date, closing.date)))
+                    .slice(0, nearestCount)
+                    .forEach((t, rank) => {
+                        candidateRows.push({
+                            account_id: accountId,
+                            period_start: opening.date,
+                            period_end: closing.date,
+                            difference: round(difference),
+                            rank: rank + 1,
+                            transaction_date: t.date,
+                            amount: t.amount,
+                            description: t.row.description ?? null,
+                            category: t.row.category ?? null,
+                            amount_gap: round(t.gap),
+                            location: t.date > opening.date && t.date <= closing.date ? 'IN_PERIOD' : 'ADJACENT',
+                        });
+                    });
             }
-            allRows.push(...currentDataset.data);
+        });
+        if (periodRows.length === 0) {
+            throw new Error(`Reconciliation needs at least two balance snapshots per account, but every account in dataset "${balancesDataset.name}" has only one evaluation_date. Pass balances_dataset_name with a dataset that holds several snapshots per account.`);
         }
-        
-        const resultName = this.saveResult(allRows);
+
+        const resultName = this.saveResult(periodRows);
         const newDataSet = this.intermediateData[resultName];
-        
-        return { 
-            result: { 
-                new_dataset_name: resultName,
-                rows: allRows.length,
-                columns: newDataSet.stats.columnNames,
-                data_preview: newDataSet.data.slice(0, 5) 
-            }, 
-            newDataSet 
-        };
-    }
+        const candidatesName = candidateRows.length > 0 ? this.saveResult(candidateRows) : null;
+        const accountStatus = d3.rollups(periodRows, v => v.every(r => r.status === 'RECONCILED'), r => String(r.account_id));
+        const reconciledAccounts = accountStatus.filter(([, ok]) => ok).map(([accountId]) => accountId);
+        const unreconciledAccounts = accountStatus.filter(([, ok]) => !ok).map(([accountId]) => accountId);
+        const unexplainedCount = periodRows.filter(r => r.status === 'UNEXPLAINED').length;
 
-    private async forecastTimeSeries(dataset_name: string, date_column: string, value_column: string, forecast_periods: number, frequency: 'daily' | 'monthly' | 'quarterly') {
-        const dataset = this.getDataset(dataset_name);
-        
-        const parsedData = dataset.data
-            .map(row => ({
-                ...row,
-                date: new Date(row[date_column] as string),
-                value: Number(row[value_column])
-            }))
-            .filter(d => !isNaN(d.date.getTime()) && !isNaN(d.value))
-            .sort((a, b) => a.date.getTime() - b.date.getTime());
-
-        if (parsedData.length < 2) {
-            throw new Error('Time series forecasting requires at least two data points.');
-        }
-
-        const x = parsedData.map(d => d.date.getTime());
-        const y = parsedData.map(d => d.value);
-        const n = parsedData.length;
-
-        const sumX = d3.sum(x);
-        const sumY = d3.sum(y);
-        const sumXY = d3.sum(parsedData, d => d.date.getTime() * d.value);
-        const sumX2 = d3.sum(x, d => d * d);
-        
-        const slope = (n * sumXY - sumX * sumY) / (n * sumX2 - sumX * sumX);
-        const intercept = (sumY - slope * sumX) / n;
+        const resultPayload: Record<string, any> = {
+            new_dataset_name: resultName,
+            rows: periodRows.length,
+            message: `${accountStatus.length}口座・${periodRows.length}期間について、前回残高に期間中の取引を加算した理論残高と実際の残高を照合しました。${reconciledAccounts.length}口座は全期間で一致し、${unexplainedCount}期間で差異（許容額${toleranceAmount}超）が見つかりました。${candidatesName ? `差異の原因候補となる取引は "${candidatesName}" に保存しました。` : ''}`,
+            columns: newDataSet.stats.columnNames,
+            data_preview: newDataSet.data.slice(0, 5),
+            reconciled_accounts: reconciledAccounts,
+            unreconciled_accounts: unreconciledAccounts,
+            candidate_transactions_dataset_name: candidatesName,
+        };
+        if (singleSnapshotAccounts.length > 0) {
+            resultPayload.warning = `次の口座は残高スナップショットが1件しかないため照合できませんでした: ${singleSnapshotAccounts.join(', ')}`;
+        }
 
-        const predict = (time: number) => slope * time + intercept;
+        return { result: resultPayload, newDataSet };
+    }
 
-        const residuals = parsedData.map(d => d.value - predict(d.date.getTime()));
-        const sse = d3.sum(residuals, r => r * r);
-        const stdError = Math.sqrt(sse / (n - 2));
+    private async calculateCorrelatedForexScenario(base_currency_pair: string, scenario_rate: number, periods: number = 30, correlated_currency_pair?: string, lookback_days: number = 90) {
+        const scenarioData: CsvRow[] = [];
+        const basePair = this.parseCurrencyPair(base_currency_pair);
+        const baseLabel = basePair.join('/');
+        const scenarioRate = Number(scenario_rate);
+        if (!isFinite(scenarioRate) || scenarioRate <= 0) {
+            throw new Error(`Scenario rate must be a positive number, but got "${scenario_rate}".`);
+        }
+        const lookbackDays = Math.max(2, Math.floor(Number(lookback_days) || 90));
+        const periodCount = Math.max(1, Math.floor(Number(periods) || 30));
 
-        const lastDate = parsedData[n - 1].date;
-        const futureDates: Date[] = [];
-        let currentDate = new Date(lastDate);
+        const { rateDate, rates } = this.getFxRatesAsOf();
+        const currentBaseRate = this.getCrossRate(rates, basePair[0], basePair[1]);
+        if (currentBaseRate === null) {
+            throw new Error(`Currency pair "${baseLabel}" cannot be derived from the fx_rates dataset.`);
+        }
 
-        for (let i = 0; i < forecast_periods; i++) {
-            switch (frequency) {
-                case 'daily':
-                    currentDate.setDate(currentDate.getDate() + 1);
-                    break;
-                case 'monthly':
-                    currentDate.setMonth(currentDate.getMonth() + 1);
-                    break;
-                case 'quarterly':
-                    currentDate.setMonth(currentDate.getMonth() + 3);
-                    break;
+        // Determine the correlated pair: either the requested one, or the pair sharing the base pair's quote
+        // currency whose daily returns have the highest absolute correlation over the lookback window.
+        let correlatedPair: [string, string];
+        if (correlated_currency_pair) {
+            correlatedPair = this.parseCurrencyPair(correlated_currency_pair);
+        } else {
+            const candidates = [...rates.keys()]
+                .filter(c => c !== basePair[0] && c !== basePair[1])
+                .sort()
+                .map(c => [c, basePair[1]] as [string, string]);
+            let bestAbsCorrelation = -1;
+            correlatedPair = candidates[0];
+            candidates.forEach(candidate => {
+                const { a, b } = this.getAlignedLogReturns(basePair, candidate, lookbackDays);
+                const { correlation } = correlationAndBeta(a, b);
+                if (Math.abs(correlation) > bestAbsCorrelation) {
+                    bestAbsCorrelation = Math.abs(correlation);
+                    correlatedPair = candidate;
+                }
+            });
+            if (!correlatedPair) {
+                throw new Error(`No correlated currency pair could be found for "${baseLabel}".`);
             }
-            futureDates.push(new Date(currentDate));
+        }
+        const correlatedLabel = correlatedPair.join('/');
+        const currentCorrelatedRate = this.getCrossRate(rates, correlatedPair[0], correlatedPair[1]);
+        if (currentCorrelatedRate === null) {
+            throw new Error(`Currency pair "${correlatedLabel}" cannot be derived from the fx_rates dataset.`);
         }
 
-        const forecastData = futureDates.map(date => {
-            const time = date.getTime();
-            const forecastValue = predict(time);
-            const newRow: CsvRow = {};
-            dataset.stats.columnNames.forEach(col => {
-                newRow[col] = null;
+        const { a: baseReturns, b: correlatedReturns } = this.getAlignedLogReturns(basePair, correlatedPair, lookbackDays);
+        if (baseReturns.length < 2) {
+            throw new Error(`Not enough fx_rates history to measure the correlation between "${baseLabel}" and "${correlatedLabel}".`);
+        }
+        const { correlation, beta } = correlationAndBeta(baseReturns, correlatedReturns);
+
+        // The correlated pair moves by beta times the base pair's log move.
+        const baseLogMove = Math.log(scenarioRate / currentBaseRate);
+        const scenarioCorrelatedRate = currentCorrelatedRate * Math.exp(beta * baseLogMove);
+
+        for (let i = 1; i <= periodCount; i++) {
+            const progress = i / periodCount;
+
+            // Interpolate both pairs geometrically so the path is consistent with the beta relationship
+            const baseRate = currentBaseRate * Math.exp(baseLogMove * progress);
+            const correlatedRate = currentCorrelatedRate * Math.exp(beta * baseLogMove * progress);
+
+            scenarioData.push({
+                date: addDays(rateDate, i),
+                [`${basePair.join('_')}_rate`]: parseFloat(baseRate.toFixed(4)),
+                [`${correlatedPair.join('_')}_rate`]: parseFloat(correlatedRate.toFixed(4)),
             });
-            newRow[date_column] = date.toISOString().split('T')[0];
-            newRow.forecast = forecastValue;
-            newRow.forecast_upper = forecastValue + 1.96 * stdError;
-            newRow.forecast_lower = forecastValue - 1.96 * stdError;
-            return newRow;
-        });
+        }
 
-        const combinedData = (dataset.data.map(row => ({
-            ...row,
-            forecast: null,
-            forecast_upper: null,
-            forecast_lower: null,
-        })) as CsvRow[]).concat(forecastData);
-        
-        const resultName = this.saveResult(combinedData);
+        const resultName = this.saveResult(scenarioData);
         const newDataSet = this.intermediateData[resultName];
 
         return {
             result: {
                 new_dataset_name: resultName,
-                rows: combinedData.length,
-                message: `Generated a forecast for ${forecast_periods} ${frequency} periods.`,
+                rows: scenarioData.length,
+                message: `${baseLabel}が${scenarioRate}になった場合の、${correlatedLabel}の仮想レートを${periodCount}日間で算出しました。基準日${rateDate}のレート（${baseLabel}=${parseFloat(currentBaseRate.toFixed(4))}, ${correlatedLabel}=${parseFloat(currentCorrelatedRate.toFixed(4))}）と、直近${baseReturns.length}日間の日次変化率から推定した相関係数${correlation.toFixed(3)}・ベータ${beta.toFixed(3)}を使用しています。`,
+                scenario: {
+                    rate_date: rateDate,
+                    base_currency_pair: baseLabel,
+                    current_base_rate: parseFloat(currentBaseRate.toFixed(4)),
+                    scenario_base_rate: scenarioRate,
+                    correlated_currency_pair: correlatedLabel,
+                    current_correlated_rate: parseFloat(currentCorrelatedRate.toFixed(4)),
+                    scenario_correlated_rate: parseFloat(scenarioCorrelatedRate.toFixed(4)),
+                    correlation: parseFloat(correlation.toFixed(4)),
+                    beta: parseFloat(beta.toFixed(4)),
+                    lookback_days: baseReturns.length,
+                },
                 columns: newDataSet.stats.columnNames,
                 data_preview: newDataSet.data.slice(0, 5),
             },
@@ -702,58 +3714,101 @@ export class ToolExecutor {
         };
     }
 
-    private async calculateCorrelatedForexScenario(base_currency_pair: string, scenario_rate: number, periods: number = 30) {
-        const scenarioData: CsvRow[] = [];
-    
-        // Determine a correlated pair based on the base pair
-        let correlated_currency_pair: string;
-        if (base_currency_pair.toUpperCase() === 'USD/JPY') {
-            correlated_currency_pair = 'EUR/JPY';
-        } else if (base_currency_pair.toUpperCase() === 'EUR/JPY') {
-            correlated_currency_pair = 'USD/JPY';
-        } else {
-            // Default fallback
-            correlated_currency_pair = 'EUR/USD';
+    private async calculateMultiCurrencyScenario(shocks: { currency: string; shock_type: string; value: number }[], base_currency: string = 'USD', lookback_days: number = 90, horizon_days: number = 1, as_of_date?: string) {
+        if (!Array.isArray(shocks) || shocks.length === 0) {
+            throw new Error('calculate_multi_currency_scenario requires at least one shock.');
         }
+        const base = String(base_currency || 'USD').toUpperCase();
+        const lookbackDays = Math.max(2, Math.floor(Number(lookback_days) || 90));
+        const horizonDays = Math.max(1, Math.floor(Number(horizon_days) || 1));
 
-        // Dummy current rates
-        const dummyCurrentBaseRate = scenario_rate * (Math.random() * 0.1 + 0.9); // 90-100% of scenario rate
-        const dummyCurrentCorrelatedRate = dummyCurrentBaseRate * 1.1 * (Math.random() * 0.2 + 0.9); // A plausible but different dummy rate
-        
-        const baseRateChangeRatio = (scenario_rate - dummyCurrentBaseRate) / dummyCurrentBaseRate;
-        const scenarioCorrelatedRate = dummyCurrentCorrelatedRate * (1 + baseRateChangeRatio);
-    
-        const today = new Date();
-    
-        for (let i = 1; i <= periods; i++) {
-            const progress = i / periods;
-    
-            // Linearly interpolate the base rate
-            const baseRate = dummyCurrentBaseRate + (scenario_rate - dummyCurrentBaseRate) * progress;
-    
-            // Linearly interpolate the correlated rate and add some noise
-            let correlatedRate = dummyCurrentCorrelatedRate + (scenarioCorrelatedRate - dummyCurrentCorrelatedRate) * progress;
-            const noise = (Math.random() - 0.5) * 0.02 * correlatedRate; // Add up to 2% noise
-            correlatedRate += noise;
-    
-            const date = new Date(today);
-            date.setDate(date.getDate() + i);
-    
-            scenarioData.push({
-                date: date.toISOString().split('T')[0],
-                [`${base_currency_pair.replace('/', '_')}_rate`]: parseFloat(baseRate.toFixed(4)),
-                [`${correlated_currency_pair.replace('/', '_')}_rate`]: parseFloat(correlatedRate.toFixed(4)),
-            });
+        const { rateDate, rates } = this.getFxRatesAsOf(as_of_date);
+        if (!rates.has(base)) {
+            throw new Error(`Base currency "${base}" cannot be derived from the fx_rates dataset.`);
         }
-    
-        const resultName = this.saveResult(scenarioData);
+        const currencies = [...rates.keys()].filter(c => c !== base).sort();
+        const returns = this.getLogReturnMatrix(base, currencies, lookbackDays, rateDate);
+        const observations = returns.get(currencies[0])?.length ?? 0;
+        if (observations < 2) {
+            throw new Error('Not enough fx_rates history to measure correlations between currencies.');
+        }
+
+        // Translate each shock into a log move of "currency per base currency".
+        const shockedMoves = new Map<string, number>();
+        shocks.forEach(shock => {
+            const currency = String(shock.currency ?? '').toUpperCase();
+            const value = Number(shock.value);
+            if (currency === base) {
+                throw new Error(`Cannot shock the base currency "${base}" against itself.`);
+            }
+            if (!currencies.includes(currency)) {
+                throw new Error(`Currency "${currency}" cannot be derived from the fx_rates dataset.`);
+            }
+            if (!isFinite(value)) {
+                throw new Error(`Shock value for "${currency}" must be a number, but got "${shock.value}".`);
+            }
+            const currentRate = this.getCrossRate(rates, base, currency)!;
+            switch (shock.shock_type) {
+                case 'level':
+                    if (value <= 0) throw new Error(`Scenario level for "${currency}" must be positive.`);
+                    shockedMoves.set(currency, Math.log(value / currentRate));
+                    break;
+                case 'percent':
+                    if (value <= -100) throw new Error(`Percent shock for "${currency}" must be greater than -100.`);
+                    shockedMoves.set(currency, Math.log(1 + value / 100));
+                    break;
+                case 'stddev': {
+                    const dailyStdDev = d3.deviation(returns.get(currency)!) ?? 0;
+                    shockedMoves.set(currency, value * dailyStdDev * Math.sqrt(horizonDays));
+                    break;
+                }
+                default:
+                    throw new Error(`Unsupported shock type: ${shock.shock_type}. Available types: level, percent, stddev.`);
+            }
+        });
+
+        // Unshocked currencies follow the conditional mean of a joint normal model of daily returns:
+        // E[r_other | r_shocked] = Σ_os · Σ_ss⁻¹ · r_shocked
+        const shocked = [...shockedMoves.keys()];
+        const sigmaSS = shocked.map(a => shocked.map(b => covariance(returns.get(a)!, returns.get(b)!)));
+        const weights = solveLinearSystem(sigmaSS, shocked.map(c => shockedMoves.get(c)!));
+        if (!weights) {
+            throw new Error('The shocked currencies are perfectly collinear in the lookback window; remove one of the shocks.');
+        }
+
+        const scenarioTable: CsvRow[] = [base, ...currencies].map(currency => {
+            const currentRate = this.getCrossRate(rates, base, currency)!;
+            let logMove = 0;
+            let source = 'base';
+            if (shockedMoves.has(currency)) {
+                logMove = shockedMoves.get(currency)!;
+                source = 'shock';
+            } else if (currency !== base) {
+                const series = returns.get(currency)!;
+                logMove = d3.sum(shocked, (s, i) => covariance(series, returns.get(s)!) * weights[i]);
+                source = 'correlated';
+            }
+            const scenarioRate = currentRate * Math.exp(logMove);
+            return {
+                currency,
+                base_currency: base,
+                rate_date: rateDate,
+                current_rate: parseFloat(currentRate.toFixed(6)),
+                scenario_rate: parseFloat(scenarioRate.toFixed(6)),
+                rate_change: parseFloat((scenarioRate - currentRate).toFixed(6)),
+                rate_change_pct: parseFloat(((Math.exp(logMove) - 1) * 100).toFixed(4)),
+                shock_source: source,
+            };
+        });
+
+        const resultName = this.saveResult(scenarioTable);
         const newDataSet = this.intermediateData[resultName];
-    
+
         return {
             result: {
                 new_dataset_name: resultName,
-                rows: scenarioData.length,
-                message: `${base_currency_pair}が${scenario_rate}になった場合の、${correlated_currency_pair}の仮想レートを${periods}日間で算出しました。`,
+                rows: scenarioTable.length,
+                message: `${shocked.join(', ')}のショックに基づき、${currencies.length + 1}通貨のシナリオレート表（1${base}あたりの各通貨額）を作成しました。ショック対象外の通貨は、基準日${rateDate}までの直近${observations}日間の日次変化率の共分散から推定した条件付き期待変化で算出しています。`,
                 columns: newDataSet.stats.columnNames,
                 data_preview: newDataSet.data.slice(0, 5),
             },
@@ -761,6 +3816,138 @@ export class ToolExecutor {
         };
     }
 
+    private async calculateFxVar(confidence_levels: number[] = [0.95, 0.99], horizon_days: number[] = [1, 10], reporting_currency: string = 'USD', lookback_days: number = 250, as_of_date?: string, settlement_rule: string = 'due_date') {
+        const reportingCurrency = String(reporting_currency || 'USD').toUpperCase();
+        const confidenceLevels = (Array.isArray(confidence_levels) && confidence_levels.length > 0 ? confidence_levels : [0.95, 0.99])
+            .map(c => Number(c) > 1 ? Number(c) / 100 : Number(c));
+        if (confidenceLevels.some(c => !(c > 0.5 && c < 1))) {
+            throw new Error(`Confidence levels must be between 0.5 and 1 (e.g., 0.99), but got [${confidence_levels.join(', ')}].`);
+        }
+        const horizons = (Array.isArray(horizon_days) && horizon_days.length > 0 ? horizon_days : [1, 10]).map(h => Math.max(1, Math.floor(Number(h) || 1)));
+        const lookbackDays = Math.max(2, Math.floor(Number(lookback_days) || 250));
+
+        const { asOfDate, settlementNote, positions } = this.buildFxExposurePositions(as_of_date, settlement_rule);
+        const { rateDate, rates } = this.getFxRatesAsOf(asOfDate);
+        if (!rates.has(reportingCurrency)) {
+            throw new Error(`Reporting currency "${reportingCurrency}" cannot be derived from the fx_rates dataset.`);
+        }
+
+        // Net exposure per currency, in native and reporting currency
+        const netByCurrency = d3.rollup(positions, v => d3.sum(v, p => p.amount), p => p.currency);
+        const missingCurrencies = [...netByCurrency.keys()].filter(c => !rates.has(c)).sort();
+        const riskCurrencies = [...netByCurrency.keys()]
+            .filter(c => c !== reportingCurrency && rates.has(c) && netByCurrency.get(c) !== 0)
+            .sort();
+        if (riskCurrencies.length === 0) {
+            throw new Error(`No foreign-currency exposure against "${reportingCurrency}" was found.`);
+        }
+        const exposures = riskCurrencies.map(c => netByCurrency.get(c)! * this.getCrossRate(rates, c, reportingCurrency)!);
+
+        // r[c] is the daily log change of "units of c per reporting currency"; a rise means c weakened.
+        const returns = this.getLogReturnMatrix(reportingCurrency, riskCurrencies, lookbackDays, rateDate);
+        const series = riskCurrencies.map(c => returns.get(c)!);
+        const observations = series[0].length;
+        if (observations < Math.max(...horizons) + 1) {
+            throw new Error(`Not enough fx_rates history: ${observations} daily returns available, but the longest horizon is ${Math.max(...horizons)} days.`);
+        }
+
+        // Historical simulation: revalue today's exposure with every overlapping h-day move in the lookback window.
+        const historicalLosses = (horizon: number) => {
+            const scenarios: { total: number; byCurrency: number[] }[] = [];
+            for (let t = horizon; t <= observations; t++) {
+                const byCurrency = exposures.map((exposure, i) => {
+                    const move = d3.sum(series[i].slice(t - horizon, t));
+                    return exposure * (1 - Math.exp(-move));
+                });
+                scenarios.push({ total: d3.sum(byCurrency), byCurrency });
+            }
+            return scenarios.sort((a, b) => a.total - b.total);
+        };
+
+        // Parametric (delta-normal): loss ≈ Σ exposure_i · r_i with the sample covariance of daily returns.
+        const sigma = series.map(a => series.map(b => covariance(a, b)));
+        const sigmaTimesExposure = sigma.map(row => d3.sum(row, (v, j) => v * exposures[j]));
+        const dailyStdDev = Math.sqrt(Math.max(0, d3.sum(exposures, (e, i) => e * sigmaTimesExposure[i])));
+
+        const summaryRows: CsvRow[] = [];
+        confidenceLevels.forEach(confidence => {
+            horizons.forEach(horizon => {
+                const scenarios = historicalLosses(horizon);
+                const losses = scenarios.map(s => s.total);
+                const historicalVar = d3.quantile(losses, confidence) ?? 0;
+                const tail = losses.filter(l => l >= historicalVar);
+                summaryRows.push({
+                    method: 'historical',
+                    confidence_level: confidence,
+                    horizon_days: horizon,
+                    value_at_risk: parseFloat(historicalVar.toFixed(2)),
+                    expected_shortfall: parseFloat((d3.mean(tail) ?? historicalVar).toFixed(2)),
+                    reporting_currency: reportingCurrency,
+                    as_of_date: asOfDate,
+                    observations: scenarios.length,
+                });
+
+                const z = normalQuantile(confidence);
+                const horizonStdDev = dailyStdDev * Math.sqrt(horizon);
+                summaryRows.push({
+                    method: 'parametric',
+                    confidence_level: confidence,
+                    horizon_days: horizon,
+                    value_at_risk: parseFloat((z * horizonStdDev).toFixed(2)),
+                    expected_shortfall: parseFloat((horizonStdDev * normalPdf(z) / (1 - confidence)).toFixed(2)),
+                    reporting_currency: reportingCurrency,
+                    as_of_date: asOfDate,
+                    observations: observations,
+                });
+            });
+        });
+
+        // Per-currency contributions at the first confidence level and horizon. Component VaR (parametric) and
+        // the average tail loss per currency (historical ES) both add up to the portfolio totals.
+        const primaryConfidence = confidenceLevels[0];
+        const primaryHorizon = horizons[0];
+        const z = normalQuantile(primaryConfidence);
+        const primaryScenarios = historicalLosses(primaryHorizon);
+        const primaryVar = d3.quantile(primaryScenarios.map(s => s.total), primaryConfidence) ?? 0;
+        const tailScenarios = primaryScenarios.filter(s => s.total >= primaryVar);
+        const portfolioVar = z * dailyStdDev * Math.sqrt(primaryHorizon);
+
+        const contributionRows: CsvRow[] = riskCurrencies.map((currency, i) => {
+            const componentVar = dailyStdDev > 0 ? exposures[i] * sigmaTimesExposure[i] / dailyStdDev * z * Math.sqrt(primaryHorizon) : 0;
+            return {
+                currency,
+                net_exposure: parseFloat(netByCurrency.get(currency)!.toFixed(2)),
+                net_exposure_reporting: parseFloat(exposures[i].toFixed(2)),
+                daily_volatility_pct: parseFloat((Math.sqrt(sigma[i][i]) * 100).toFixed(4)),
+                standalone_var: parseFloat((z * Math.abs(exposures[i]) * Math.sqrt(sigma[i][i] * primaryHorizon)).toFixed(2)),
+                parametric_component_var: parseFloat(componentVar.toFixed(2)),
+                share_of_var_pct: parseFloat((portfolioVar > 0 ? componentVar / portfolioVar * 100 : 0).toFixed(2)),
+                historical_component_es: parseFloat((d3.mean(tailScenarios, s => s.byCurrency[i]) ?? 0).toFixed(2)),
+            };
+        });
+
+        const resultName = this.saveResult(summaryRows);
+        const newDataSet = this.intermediateData[resultName];
+        const contributionName = this.saveResult(contributionRows);
+        const contributionDataSet = this.intermediateData[contributionName];
+
+        const resultPayload: Record<string, any> = {
+            new_dataset_name: resultName,
+            rows: summaryRows.length,
+            message: `${asOfDate}時点のグループ為替エクスポージャー（${reportingCurrency}建て）について、${rateDate}までの直近${observations}日間の日次レートを用いてヒストリカル法とパラメトリック法のVaR/ESを算出しました。通貨別の寄与度（信頼水準${primaryConfidence}、保有期間${primaryHorizon}日）は "${contributionName}" に保存しました。${settlementNote}`,
+            columns: newDataSet.stats.columnNames,
+            data_preview: newDataSet.data.slice(0, 5),
+            contribution_dataset_name: contributionName,
+            contribution_columns: contributionDataSet.stats.columnNames,
+            contribution_preview: contributionDataSet.data.slice(0, 5),
+        };
+        if (missingCurrencies.length > 0) {
+            resultPayload.warning = `次の通貨は為替レートがないため計算から除外されました: ${missingCurrencies.join(', ')}`;
+        }
+
+        return { result: resultPayload, newDataSet };
+    }
+
     private async verifyVisualizationData(dataset_name: string, visualization_type: string, columns: Record<string, string | string[]>) {
         const dataset = this.getDataset(dataset_name);
         if (dataset.data.length === 0) {
@@ -850,29 +4037,42 @@ export class ToolExecutor {
         return { result: { status: 'OK', message: 'Data is suitable for visualization.' } };
     }
     
-    private markdownify(data: CsvRow[], columns: string[]): string {
+    // With decimalPlaces, numbers get thousands separators and numeric columns are right-aligned
+    private markdownify(data: CsvRow[], columns: string[], decimalPlaces?: number): string {
         if (data.length === 0) {
             return "表示するデータがありません。";
         }
 
         const escapePipe = (value: any) => 
             (value === null || value === undefined) ? '' : String(value).replace(/\|/g, '\\|');
+        const formatCell = (value: any) => decimalPlaces !== undefined && typeof value === 'number'
+            ? value.toLocaleString('en-US', { minimumFractionDigits: decimalPlaces, maximumFractionDigits: decimalPlaces })
+            : escapePipe(value);
+        const isNumericColumn = (col: string) => data.some(row => typeof row[col] === 'number') && data.every(row => row[col] === null || row[col] === undefined || typeof row[col] === 'number');
 
         const header = `| ${columns.map(escapePipe).join(' | ')} |`;
-        const separator = `| ${columns.map(() => '---').join(' | ')} |`;
+        const separator = `| ${columns.map(col => decimalPlaces !== undefined && isNumericColumn(col) ? '---:' : '---').join(' | ')} |`;
         
         const rows = data.map(row => {
-            const rowData = columns.map(col => escapePipe(row[col]));
+            const rowData = columns.map(col => formatCell(row[col]));
             return `| ${rowData.join(' | ')} |`;
         }).join('\n');
 
         return `${header}\n${separator}\n${rows}`;
     }
 
-    private async renderTable(dataset_name: string, title: string) {
+    private async renderTable(dataset_name: string, title: string, columns?: string[], decimal_places?: number) {
         const dataset = this.getDataset(dataset_name);
-        
-        const markdownString = this.markdownify(dataset.data, dataset.stats.columnNames);
+        const selectedColumns = Array.isArray(columns) && columns.length > 0 ? columns : dataset.stats.columnNames;
+        const missingColumns = selectedColumns.filter(col => !dataset.stats.columnNames.includes(col));
+        if (missingColumns.length > 0) {
+            throw new Error(`Column(s) ${missingColumns.map(c => `"${c}"`).join(', ')} were not found in dataset "${dataset_name}". Available columns: ${dataset.stats.columnNames.join(', ')}.`);
+        }
+        if (decimal_places !== undefined && !(Number.isInteger(decimal_places) && decimal_places >= 0 && decimal_places <= 10)) {
+            throw new Error('decimal_places must be an integer between 0 and 10.');
+        }
+
+        const markdownString = this.markdownify(dataset.data, selectedColumns, decimal_places);
 
         const fullMarkdown = `### ${title}\n\n${markdownString}`;
         